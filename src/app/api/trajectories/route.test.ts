@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+const post = (body: unknown) =>
+  POST(new Request('http://localhost/api/trajectories', {
+    method: 'POST',
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  }));
+
+const LASER = { kind: 'laser', x: -10, y: 3, angle: 0 };
+
+describe('POST /api/trajectories', () => {
+  it('returns the summaries and points of every ray', async () => {
+    const response = await post({ emitters: [LASER, { ...LASER, pattern: 'fan', count: 3 }], maxSteps: 2000 });
+    expect(response.status).toBe(200);
+    const text = await response.text();
+    expect(text).not.toContain('\n');
+    const { metric, trajectories } = JSON.parse(text);
+    expect(metric).toMatchObject({ kind: 'schwarzschild', massFactor: 1 });
+    expect(trajectories.map(({ emitter, ray }: { emitter: number; ray: number }) => [emitter, ray])).toEqual([
+      [0, 0], [1, 0], [1, 1], [1, 2],
+    ]);
+    expect(trajectories[0].fate).toBe('escaped');
+    expect(trajectories[0].points.length).toBeGreaterThan(1);
+  });
+
+  it('leaves the points out on request', async () => {
+    const response = await post({ emitters: [LASER], gravity: false, points: false });
+    const { metric, trajectories } = await response.json();
+    expect(metric.massFactor).toBe(0);
+    expect(trajectories[0]).not.toHaveProperty('points');
+    expect(trajectories[0].deflection).toBeCloseTo(0, 5);
+  });
+
+  it('answers invalid input with 400 and the offending field', async () => {
+    const cases: [unknown, string][] = [
+      ['{ "emitters": ', 'request body is not valid JSON'],
+      [[LASER], 'request body must be an object'],
+      [{ emitters: [] }, 'emitters must be a non-empty list'],
+      [{ emitters: [{ ...LASER, x: 'far' }] }, 'emitters[0].x must be a number'],
+      [{ emitters: [LASER], metric: { kind: 'wormhole' } }, 'metric.kind must be one of'],
+      [{ emitters: [LASER], gravity: 'yes' }, 'gravity must be true or false'],
+      [{ emitters: [LASER], points: 1 }, 'points must be true or false'],
+      [{ emitters: [LASER], worldRadius: 1e4 }, 'worldRadius must be a number between 5 and 1000'],
+    ];
+    for (const [body, message] of cases) {
+      const response = await post(body);
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain(message);
+    }
+  });
+
+  it('refuses requests beyond its limits', async () => {
+    const fan = { ...LASER, pattern: 'fan', count: 64 };
+    const tooManyRays = await post({ emitters: [fan, fan, fan, fan, LASER] });
+    expect((await tooManyRays.json()).error).toBe('at most 256 rays per request (got 257)');
+    const tooManySteps = await post({ emitters: [fan, fan], maxSteps: 20000 });
+    expect((await tooManySteps.json()).error).toContain('rays × maxSteps');
+
+    // Fixed steps of 0.01 r_s over the 40 r_s to the world edge: ~4000
+    // points per ray, too many for 64 rays unless only summaries are asked for
+    const long = { emitters: [{ ...LASER, pattern: 'beam', count: 64 }], tolerance: 0, maxSteps: 5000, worldRadius: 30 };
+    const tooManyPoints = await post(long);
+    expect(tooManyPoints.status).toBe(400);
+    expect((await tooManyPoints.json()).error).toContain('at most 100000 can be returned');
+    expect((await post({ ...long, points: false })).status).toBe(200);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Batch computation of geodesics on the server:
+ *
+ *   POST /api/trajectories
+ *   {
+ *     "emitters": [{ "kind": "laser", "x": -10, "y": 3, "angle": 0, "pattern": "ray" }, ...],
+ *     "metric": { "kind": "kerr", "spin": 0.9 },   // optional, Schwarzschild by default
+ *     "gravity": true,                              // optional, false for flat space
+ *     "tolerance": 1e-6,                            // optional, 0 for fixed-step RK4
+ *     "worldRadius": 50,                            // optional, escape radius in r_s
+ *     "maxSteps": 4000,                             // optional
+ *     "points": true                                // optional, false for summaries only
+ *   }
+ *
+ * Emitters follow the scene format (r_s units, y up, angles in degrees
+ * counter-clockwise) and the response is the unindented JSON of the data
+ * export, so scripts see exactly what the playground computes.  Invalid
+ * input, and paths with more than MAX_POINTS points in all, are answered
+ * with 400 and { "error": message }.
+ */
+import { NextResponse } from 'next/server';
+import { emitterRays, parseEmitter, parseMetric, SceneFormatError } from '@/scene';
+// Imported directly: the package index also pulls in the browser worker pool
+import { computeTrajectory } from '@/trajectories/compute';
+import { trajectoriesToJson, type TrajectoryRecord } from '@/trajectories/export';
+
+// Limits that keep a single request within a few seconds of CPU
+const MAX_RAYS = 256;
+const MAX_STEPS = 20000;
+const MAX_TOTAL_STEPS = 2_000_000;
+const MAX_WORLD_RADIUS = 1000;
+// Points returned per request, about 250 bytes each in the response
+const MAX_POINTS = 100_000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectNumber = (value: unknown, path: string, min: number, max: number): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new SceneFormatError(`${path} must be a number between ${min} and ${max}`);
+  }
+  return value;
+};
+
+const parseJob = (body: unknown) => {
+  if (!isRecord(body)) throw new SceneFormatError('request body must be an object');
+  if (!Array.isArray(body.emitters) || body.emitters.length === 0) {
+    throw new SceneFormatError('emitters must be a non-empty list');
+  }
+  const emitters = body.emitters.map((emitter, i) => parseEmitter(emitter, `emitters[${i}]`));
+  const rays = emitters.reduce((total, emitter) => total + emitterRays(emitter).length, 0);
+  if (rays > MAX_RAYS) throw new SceneFormatError(`at most ${MAX_RAYS} rays per request (got ${rays})`);
+
+  const maxSteps = Math.round(expectNumber(body.maxSteps ?? 4000, 'maxSteps', 1, MAX_STEPS));
+  if (rays * maxSteps > MAX_TOTAL_STEPS) {
+    throw new SceneFormatError(`rays × maxSteps must not exceed ${MAX_TOTAL_STEPS}`);
+  }
+  if (body.gravity !== undefined && typeof body.gravity !== 'boolean') {
+    throw new SceneFormatError('gravity must be true or false');
+  }
+  if (body.points !== undefined && typeof body.points !== 'boolean') {
+    throw new SceneFormatError('points must be true or false');
+  }
+
+  return {
+    emitters,
+    metric: { ...parseMetric(body.metric, 'metric'), massFactor: body.gravity === false ? 0 : 1 },
+    tolerance: expectNumber(body.tolerance ?? 1e-6, 'tolerance', 0, 1e-2),
+    worldRadius: expectNumber(body.worldRadius ?? 50, 'worldRadius', 5, MAX_WORLD_RADIUS),
+    maxSteps,
+    points: body.points ?? true,
+  };
+};
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'request body is not valid JSON' }, { status: 400 });
+  }
+
+  let job: ReturnType<typeof parseJob>;
+  try {
+    job = parseJob(body);
+  } catch (error) {
+    if (error instanceof SceneFormatError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const { emitters, metric, tolerance, worldRadius, maxSteps } = job;
+  const records: TrajectoryRecord[] = emitters.flatMap((emitter, index) =>
+    emitterRays(emitter).map((init, ray) => ({
+      emitter: index,
+      ray,
+      kind: emitter.kind,
+      trajectory: computeTrajectory({
+        kind: emitter.kind,
+        init,
+        speed: emitter.speed,
+        options: { metric, tolerance, escapeRadius: worldRadius, maxSteps },
+      }),
+    }))
+  );
+
+  const points = records.reduce((total, record) => total + record.trajectory.points.length, 0);
+  if (job.points && points > MAX_POINTS) {
+    return NextResponse.json({
+      error: `the paths have ${points} points, at most ${MAX_POINTS} can be returned: ask for fewer rays or steps, or for "points": false`,
+    }, { status: 400 });
+  }
+
+  return new NextResponse(trajectoriesToJson(records, { metric, tolerance, worldRadius }, job.points, false), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -1,193 +1,206 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import dynamic from 'next/dynamic';
 import packageJson from '../../package.json';
+import DeflectionPanel, { type DeflectionSample } from './DeflectionPanel';
+import TrajectoryCanvas, { type RayStroke } from './TrajectoryCanvas';
+import CameraPanel, { type CameraMode } from './CameraPanel';
+import DiskPanel, { type DiskSettings } from './DiskPanel';
+import OrbitPanel from './OrbitPanel';
+import OpticsPanel from './OpticsPanel';
+import EmbeddingPanel from './EmbeddingPanel';
+import ConnectPanel, { IMAGE_COLORS, imageLabel, type ConnectSettings } from './ConnectPanel';
+import RadarPanel, { radarEndpoints, radarOptions, RADAR_SHOOTING, type RadarSettings } from './RadarPanel';
+import { detectorHits, OPTICAL_KINDS, type OpticalElement, type OpticalKind } from '@/optics';
+import type { Observer } from '@/lensing';
+import { embeddingProfile } from '@/embedding';
+import {
+  GRID_MODES,
+  LIGHT_CONE_MODES,
+  lightFront,
+  properDistanceTicks,
+  supportsLightCones,
+  type GridMode,
+  type LightConeMode,
+} from '@/grid';
+import { figureToSvg, svgToPng, type Figure, type FigureOptions } from '@/figures';
+import {
+  trajectoriesToCsv,
+  trajectoriesToJson,
+  useConnectingRays,
+  useTrajectories,
+  type ShootingProblem,
+  type TrajectoryRecord,
+  type TrajectoryRequest,
+} from '@/trajectories';
+import {
+  decodeSceneHash,
+  EMITTER_PATTERNS,
+  emitterRays as sceneEmitterRays,
+  encodeSceneHash,
+  hasSceneHash,
+  SCENE_VERSION,
+  SceneFormatError,
+  sceneFromJson,
+  sceneToJson,
+  type EmitterPattern,
+  type Scene,
+} from '@/scene';
+import {
+  createMetric,
+  criticalLaunchAngle,
+  DEFAULT_METRIC,
+  escapeSpeed,
+  measuredDeflection,
+  METRIC_KINDS,
+  kerrErgosphereRadius,
+  kerrIscoRadii,
+  kerrPhotonOrbitRadii,
+  reissnerNordstromHorizons,
+  type MetricKind,
+  type MetricParams,
+  type Trajectory,
+} from '@/physics';
 
 const STAR_COUNT = 200;
 const STAR_COLOR = "#fff";
 const STAR_SIZE = 1.2;
 
+// Emitters fire either light rays or massive test particles
+type EmitterKind = 'laser' | 'particle';
+
 // Laser type definition
 type Laser = {
   id: number;
-  x: number;
+  kind: EmitterKind;
+  x: number; // world position in Rs units, y up
   y: number;
   fired: boolean;
-  angle: number;
+  angle: number; // on-screen direction in degrees, clockwise from +x
+  speed: number; // launch speed of particles, as a fraction of c
+  pattern: EmitterPattern; // single ray, parallel beam, fan or point source
+  count: number; // rays of beams, fans and point sources
+  beamWidth: number; // width of beams in Rs units
+  aperture: number; // opening of fans in degrees
   direction: 'left' | 'right'; // Direction the laser beam emerges from
 };
 
-// Function to calculate distance to screen edge
-function calculateDistanceToEdge(x: number, y: number, angle: number, width: number, height: number): number {
-  // Convert angle to radians
-  const angleRad = (angle * Math.PI) / 180;
-  
-  // Calculate the four possible distances to screen edges
-  const distances = [
-    // Distance to top edge
-    y / Math.sin(angleRad),
-    // Distance to bottom edge
-    (height - y) / Math.sin(angleRad),
-    // Distance to left edge
-    x / Math.cos(angleRad),
-    // Distance to right edge
-    (width - x) / Math.cos(angleRad)
-  ];
-  
-  // Filter out negative and infinite values
-  const validDistances = distances.filter(d => d > 0 && isFinite(d));
-  
-  // Return the minimum valid distance
-  return Math.min(...validDistances);
-}
+// Ray counts given to new multi-ray emitters, and the largest allowed
+const DEFAULT_RAY_COUNTS: Record<EmitterPattern, number> = { ray: 1, beam: 11, fan: 9, point: 16 };
+const MAX_RAY_COUNT = 64;
 
-// Function to calculate distance in Schwarzschild radius units
-const calculateDistanceInRs = (x: number, y: number, BH_SIZE: number): number => {
-  const distanceFromCenter = Math.sqrt(x * x + y * y);
-  const blackHoleRadius = BH_SIZE * 0.25; // This is our Schwarzschild radius
-  return distanceFromCenter / blackHoleRadius;
-};
+// Launch points and on-screen angles of the rays of an emitter, laid out
+// by the scene module in world angles
+const emitterRays = (laser: Laser): { x: number; y: number; angle: number }[] =>
+  sceneEmitterRays({ ...laser, angle: -laser.angle }).map((ray) => ({ ...ray, angle: (-ray.angle * 180) / Math.PI }));
+
+// Key of ray i of an emitter in the trajectory maps
+const rayKey = (id: number, i: number) => `${id}-${i}`;
 
 /**
- * Integrate a *photon* geodesic in the equatorial plane (θ = π/2) of
- * a Schwarzschild black hole, starting from a screen point and angle.
+ * Integration request for an emitter: a light ray, or a massive particle
+ * when a launch speed is given.
  *
- * All lengths are in *pixels*; we simply interpret the on-screen
- * "black-hole radius"  bhSize*0.25  as the Schwarzschild radius r_s.
- *
- * The geodesic equations used are
- *   r'   = p_r
- *   φ'   =  L / r²
- *   p_r' = -½ dV_eff/dr ,   with  V_eff = f L² / r² ,  f = 1 - r_s/r
- *
- * where ( ' ) denotes d/dλ (affine parameter) and
- *   L = r₀² φ̇₀  is fixed by the initial direction.
+ * The physics lives in `integrateLightRay` / `integrateParticle`, run by
+ * the trajectory workers in units of r_s with y pointing up, the frame in
+ * which emitters are stored; only the on-screen angle (clockwise, y down)
+ * needs converting.  Rays are followed out to `worldRadius` whatever the
+ * zoom, pan or window size, which only affect how they are drawn.
  */
-const calculateLightPath = (
-  startX: number,
-  startY: number,
-  angleDeg: number,
-  width: number,
-  height: number,
-  bhSize: number,
-  zoom: number,
-  gravityEnabled: boolean
-): { x: number; y: number; distToCenter: number }[] => {
-  /* ------------ helpers -------------------------------------------------- */
-  const rk4 = (
-    y: [number, number, number],       // [r, φ, p_r]
-    h: number,
-    derivs: (y: [number, number, number]) => [number, number, number]
-  ): [number, number, number] => {
-    const k1 = derivs(y);
-    const k2 = derivs([
-      y[0] + 0.5 * h * k1[0],
-      y[1] + 0.5 * h * k1[1],
-      y[2] + 0.5 * h * k1[2],
-    ]);
-    const k3 = derivs([
-      y[0] + 0.5 * h * k2[0],
-      y[1] + 0.5 * h * k2[1],
-      y[2] + 0.5 * h * k2[2],
-    ]);
-    const k4 = derivs([
-      y[0] + h * k3[0],
-      y[1] + h * k3[1],
-      y[2] + h * k3[2],
-    ]);
-    return [
-      y[0] + (h / 6) * (k1[0] + 2 * k2[0] + 2 * k3[0] + k4[0]),
-      y[1] + (h / 6) * (k1[1] + 2 * k2[1] + 2 * k3[1] + k4[1]),
-      y[2] + (h / 6) * (k1[2] + 2 * k2[2] + 2 * k3[2] + k4[2]),
-    ];
-  };
-
-  /* ------------ screen → BH-centric coordinates -------------------------- */
-  const centerX = width / 2;
-  const centerY = height / 2;
-  const rs = bhSize * 0.25;                       // Schwarzschild radius
-  const massFactor = gravityEnabled ? 1 : 0;      // Mass factor for gravity
-  const effectiveRs = rs * massFactor;            // Effective Schwarzschild radius
-  const relX0 = startX - centerX;
-  const relY0 = startY - centerY;
-
-  // Polar coords of the starting point
-  const r0 = Math.hypot(relX0, relY0);
-  const phi0 = Math.atan2(relY0, relX0);
-
-  // Initial *Euclidean* direction
-  const angle = (angleDeg * Math.PI) / 180;
-  const vx = Math.cos(angle);
-  const vy = Math.sin(angle);
-
-  // Components along {e_r, e_φ}
-  const n_r = vx * Math.cos(phi0) + vy * Math.sin(phi0);
-  const n_phi = -vx * Math.sin(phi0) + vy * Math.cos(phi0);
-
-  // Affine-parameter scale κ is arbitrary – choose 1
-  const p_r0 = n_r;                // ṙ(0)
-  const L = n_phi * r0;          // conserved angular momentum
-
-  /* ------------ derivative function -------------------------------------- */
-  const derivs = ([r, _phi, p_r]: [number, number, number]):
-    [number, number, number] => {
-    const _f = 1 - effectiveRs / r;
-    const dVdr = L * L * (-2 / (r ** 3) + (3 * effectiveRs) / (r ** 4));
-    return [
-      /* dr/dλ   */ p_r,
-      /* dφ/dλ   */ L / (r * r),
-      /* dp_r/dλ */ -0.5 * dVdr,
-    ];
-  };
-
-  /* ------------ integration loop ----------------------------------------- */
-  const h = rs * 0.01;           // Smaller step size for better accuracy
-  const maxSteps = 4000;         // Increased max steps for longer paths
-  const points: { x: number; y: number; distToCenter: number }[] = [];
+const pathRequest = (
+  laser: Laser,
+  ray: { x: number; y: number; angle: number },
+  metric: MetricParams,
+  tolerance: number,
+  worldRadius: number,
+  optics: OpticalElement[] = []
+): TrajectoryRequest => ({
+  kind: laser.kind,
+  init: { x: ray.x, y: ray.y, angle: (-ray.angle * Math.PI) / 180 },
+  speed: laser.speed,
+  options: {
+    metric,
+    escapeRadius: worldRadius,
+    tolerance,
+  },
+  ...(optics.length > 0 && { optics }),
+});
 
-  // Calculate maximum distance based on zoom
-  const maxDistance = Math.max(width, height) * (1.5 / zoom);
+// Size and orientation of newly placed mirrors and detectors
+const OPTICAL_DEFAULTS: Record<OpticalKind, { angle: number; size: number }> = {
+  'flat-mirror': { angle: 90, size: 4 },
+  'circular-mirror': { angle: 0, size: 2 },
+  detector: { angle: 90, size: 6 },
+};
 
-  let yState: [number, number, number] = [r0, phi0, p_r0];
+// Steps (Rs) of the circles of constant r and of the light-cone lattice
+const OVERLAY_STEPS = [0.5, 1, 2, 5, 10, 20, 50];
 
-  for (let step = 0; step < maxSteps; step++) {
-    const [r, phi, _pr] = yState;
+// Integrator choices offered in the sidebar (0 = fixed-step RK4)
+const TOLERANCE_OPTIONS = [0, 1e-4, 1e-6, 1e-8, 1e-10];
 
-    // stop if we cross the horizon
-    if (r <= effectiveRs * 1.001) break;
+// Radii (Rs) out to which rays are followed before counting as escaped
+const WORLD_RADIUS_OPTIONS = [20, 50, 100, 200];
 
-    // convert back to screen coords
-    const xPix = r * Math.cos(phi) + centerX;
-    const yPix = r * Math.sin(phi) + centerY;
+// Slider of the parameter of each spacetime offered in the sidebar
+const METRIC_PARAMETER_SLIDERS: Partial<Record<MetricKind, {
+  key: 'spin' | 'charge' | 'cosmologicalConstant';
+  max: number;
+  step: number;
+}>> = {
+  kerr: { key: 'spin', max: 0.99, step: 0.01 },
+  'reissner-nordstrom': { key: 'charge', max: 1, step: 0.01 },
+  'schwarzschild-de-sitter': { key: 'cosmologicalConstant', max: 0.02, step: 0.0005 },
+};
 
-    // Calculate distance from center
-    const distFromCenter = Math.hypot(xPix - centerX, yPix - centerY);
+// Relative constraint drift above which a ray is flagged as unreliable
+const DRIFT_WARNING = 1e-3;
 
-    // stop if we exceed maximum distance or leave the canvas
-    const factor = 1/zoom;
-    if (distFromCenter > maxDistance || 
-        xPix < -factor*width || xPix > width * factor || 
-        yPix < -factor*height || yPix > height * factor) break;
+// Animation speed, in Rs/c of clock time per second, and the longest timeline
+const ANIMATION_RATE = 5;
+const MAX_ANIMATION_TIME = 500;
 
-    points.push({
-      x: xPix,
-      y: yPix,
-      distToCenter: zoom,
-    });
+// Clocks along which the animation can run
+type AnimationClock = 'coordinate' | 'infalling';
 
-    // one RK4 step
-    yState = rk4(yState, h, derivs);
-  }
+// Number of undo steps kept in the history
+const HISTORY_LIMIT = 100;
 
-  return points;
+// Editable content of the scene kept by the undo history; the view and
+// the language are left alone
+type SceneSnapshot = {
+  lasers: Laser[];
+  optics: OpticalElement[];
+  metric: MetricParams;
+  tolerance: number;
+  worldRadius: number;
+  gravityEnabled: boolean;
+  showGrid: boolean;
+  observer: Observer | null;
 };
 
+// Emitter properties editable in the dialog
+type EditableField = 'x' | 'y' | 'angle' | 'speed' | 'count' | 'beamWidth' | 'aperture';
+
 // Function to normalize angle to 0-360 range
 const normalizeAngle = (angle: number): number => {
   return ((angle % 360) + 360) % 360;
 };
 
+// Save a file through a temporary download link
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Resolutions offered for PNG figures, as multiples of the screen size
+const FIGURE_RESOLUTIONS = [1, 2, 4];
+
 // Function to generate stars with consistent positions
 const generateStars = (width: number, height: number) => {
   return Array.from({ length: STAR_COUNT }, (_, i) => {
@@ -207,13 +220,23 @@ function BlackHoleComponent() {
   const maxZoom = 2.5;
   const [gravityEnabled, setGravityEnabled] = useState(false);
   const [showGrid, setShowGrid] = useState(false);
+  const [showEmbedding, setShowEmbedding] = useState(false);
+  const [gridMode, setGridMode] = useState<GridMode>('cartesian');
+  const [lightCones, setLightCones] = useState<LightConeMode>('off');
   const [editingLaserId, setEditingLaserId] = useState<number | null>(null);
-  const [tempInputValues, setTempInputValues] = useState<{ x: string; y: string; angle: string }>({ x: '', y: '', angle: '' });
+  const [tempInputValues, setTempInputValues] = useState<Record<EditableField, string>>({
+    x: '', y: '', angle: '', speed: '', count: '', beamWidth: '', aperture: '',
+  });
   const [size, setSize] = useState({ width: 800, height: 800 });
   const [stars, setStars] = useState<Array<{ x: number; y: number; r: number; o: number }>>([]);
   const [isClient, setIsClient] = useState(false);
   const [lasers, setLasers] = useState<Laser[]>([]);
   const [nextId, setNextId] = useState(0);
+  // Earlier and undone scenes, most recent last / first
+  const [history, setHistory] = useState<{ past: SceneSnapshot[]; future: SceneSnapshot[] }>({ past: [], future: [] });
+  // Key of the last recorded edit; repeated keys coalesce into one step
+  const lastHistoryKey = useRef<string | null>(null);
+  const gestureCount = useRef(0);
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   const [draggedLaserId, setDraggedLaserId] = useState<number | null>(null);
@@ -224,6 +247,35 @@ function BlackHoleComponent() {
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [wasPanning, setWasPanning] = useState(false);
   const [language, setLanguage] = useState<'en' | 'es'>('es');
+  const [tolerance, setTolerance] = useState(1e-6);
+  const [worldRadius, setWorldRadius] = useState(50);
+  const [metric, setMetric] = useState<MetricParams>(DEFAULT_METRIC);
+  const [compareNewtonian, setCompareNewtonian] = useState(false);
+  const [emitterKind, setEmitterKind] = useState<EmitterKind>('laser');
+  const [emitterPattern, setEmitterPattern] = useState<EmitterPattern>('ray');
+  const [particleSpeed, setParticleSpeed] = useState(0.5);
+  const [showPhotonSphere, setShowPhotonSphere] = useState(false);
+  const [showShadow, setShowShadow] = useState(false);
+  const [showDeflectionPanel, setShowDeflectionPanel] = useState(false);
+  const [showAnimation, setShowAnimation] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [clockTime, setClockTime] = useState(0);
+  const [animationClock, setAnimationClock] = useState<AnimationClock>('coordinate');
+  const [observer, setObserver] = useState<Observer | null>(null);
+  const [cameraMode, setCameraMode] = useState<CameraMode>('image');
+  const [observerGesture, setObserverGesture] = useState<'drag' | 'rotate' | null>(null);
+  const [disk, setDisk] = useState<DiskSettings | null>(null);
+  const [radar, setRadar] = useState<RadarSettings | null>(null);
+  const [connect, setConnect] = useState<ConnectSettings | null>(null);
+  const [optics, setOptics] = useState<OpticalElement[]>([]);
+  // Element placed by the next click, instead of an emitter
+  const [opticsTool, setOpticsTool] = useState<OpticalKind | null>(null);
+  const [opticsGesture, setOpticsGesture] = useState<{ id: number; mode: 'drag' | 'rotate' } | null>(null);
+  const [figureOptions, setFigureOptions] = useState<FigureOptions>({ print: false, legend: true, stars: true });
+  const [figureResolution, setFigureResolution] = useState(2);
+  const [sceneMessage, setSceneMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const sceneFileInput = useRef<HTMLInputElement>(null);
+  const sceneHashLoaded = useRef(false);
 
   // Translations
   const translations = useMemo(() => ({
@@ -231,8 +283,21 @@ function BlackHoleComponent() {
       title: "Black-hole optics",
       subtitle: "by Dr. Z",
       cleanAll: "Clean All",
+      undo: "Undo",
+      redo: "Redo",
       gravitation: "Gravitation",
       showGrid: "Show Grid",
+      gridModes: { cartesian: "Cartesian x, y", radial: "Circles of r" },
+      properDistance: "proper distance from the horizon (Rs)",
+      lightCones: "Light Cones",
+      lightConeModes: { off: "Off", schwarzschild: "Schwarzschild t", 'eddington-finkelstein': "Eddington–Finkelstein" },
+      embeddingDiagram: "Embedding Diagram",
+      embedding: {
+        title: "Embedding diagram of the equatorial plane",
+        outerRadius: "Outer radius",
+        hint: "drag to turn · scroll to zoom",
+        unsupported: "The equatorial plane of a spinning hole has no such embedding",
+      },
       howToUse: "How to Use",
       instructions: [
         "• Click anywhere to place a laser",
@@ -243,7 +308,9 @@ function BlackHoleComponent() {
         "• Shift + Right-click to edit coordinates",
         "• Use mouse wheel to zoom in/out",
         "• Alt + drag or middle-click drag to pan",
-        "• Toggle gravitation to see light bending"
+        "• Toggle gravitation to see light bending",
+        "• Choose a spacetime and tune its parameter",
+        "• Switch the emitter to fire massive particles"
       ],
       zoomIn: "+",
       zoomOut: "-",
@@ -252,14 +319,177 @@ function BlackHoleComponent() {
       latestCommit: "Latest commit:",
       laserNumber: "Laser #",
       coordinates: "Coordinates (in Rs units)",
-      close: "×"
+      close: "×",
+      integrator: "Integrator",
+      fixedStep: "Fixed step (RK4)",
+      tolerance: "Tolerance",
+      worldRadius: "World radius",
+      data: "Data",
+      placeOptics: "Click places",
+      noOptics: "Emitters",
+      optics: {
+        title: "Mirrors and detectors",
+        kinds: { 'flat-mirror': "Flat mirror", 'circular-mirror': "Circular mirror", detector: "Detector" },
+        size: { 'flat-mirror': "length", 'circular-mirror': "radius", detector: "length" },
+        angle: "angle",
+        hits: "hits",
+        ray: "ray",
+        position: "along (Rs)",
+        incidence: "incidence",
+        arrival: "t (Rs/c)",
+        remove: "Remove",
+      },
+      figure: "Figure",
+      figureStyles: { print: "Print", legend: "Legend", stars: "Stars" },
+      figureFailed: "Figure export failed",
+      computeFailed: "Ray tracing failed",
+      fate: "Fate",
+      fates: { captured: "captured", escaped: "escaped", 'max-steps': "max. steps", absorbed: "detected" },
+      constraintDrift: "Null-constraint drift",
+      unreliable: "unreliable",
+      spacetime: "Spacetime",
+      metrics: {
+        schwarzschild: "Schwarzschild",
+        kerr: "Kerr",
+        'reissner-nordstrom': "Reissner–Nordström",
+        'schwarzschild-de-sitter': "Schwarzschild–de Sitter",
+        newtonian: "Newtonian corpuscle"
+      },
+      metricParameters: {
+        spin: "Spin a/M",
+        charge: "Charge Q/M",
+        cosmologicalConstant: "Λ (Rs⁻²)"
+      },
+      innerHorizon: "Inner horizon",
+      compareNewtonian: "Compare with Newton",
+      emitter: "Emitter",
+      emitters: { laser: "Laser", particle: "Massive particle" },
+      pattern: "Pattern",
+      patterns: { ray: "Single ray", beam: "Parallel beam", fan: "Fan", point: "Point source" },
+      rayCount: "Rays",
+      beamWidth: "Width",
+      aperture: "Aperture",
+      raysEscaped: "escaped",
+      raysCaptured: "captured",
+      launchSpeed: "Launch speed (c)",
+      particleNumber: "Particle #",
+      speed: "Speed:",
+      energyPerMass: "E/m",
+      angularMomentumPerMass: "L/m",
+      properTime: "Proper time τ",
+      escapeSpeed: "Escape speed",
+      isco: "ISCO",
+      photonSphere: "Photon Sphere",
+      shadowRadius: "Shadow Radius",
+      impactParameter: "Impact parameter b",
+      criticalImpactParameter: "Critical b_c",
+      belowCritical: "below critical: captured",
+      aboveCritical: "above critical: escapes",
+      snapToCritical: "Snap to critical b",
+      exportScene: "Export",
+      importScene: "Import",
+      shareScene: "Share Link",
+      invalidScene: "Invalid scene",
+      linkCopied: "Link copied to the clipboard",
+      sceneLoaded: "Scene loaded",
+      deflectionPanel: "Deflection Panel",
+      animation: "Animate Propagation",
+      play: "Play",
+      pause: "Pause",
+      clocks: { coordinate: "Coordinate time t", infalling: "Infalling observer τ" },
+      observerCamera: "Observer Camera",
+      camera: {
+        title: "Observer view",
+        modes: { strip: "Equatorial strip", image: "Full image" },
+        fieldOfView: "Field of view",
+        tracing: "tracing…",
+      },
+      accretionDisk: "Accretion Disk",
+      disk: {
+        title: "Thin accretion disk",
+        inclination: "Inclination",
+        outerRadius: "Outer radius",
+        innerEdge: "ISCO",
+        redshift: "redshift g",
+        unsupported: "The disk image needs a non-rotating hole",
+        tracing: "tracing…",
+      },
+      connect: {
+        start: "Connect to a target…",
+        title: "Rays to target from laser",
+        pick: "Click a point or a detector",
+        repick: "Pick another target",
+        maxWinding: "Windings up to",
+        searching: "searching for rays…",
+        none: "No ray reaches the target",
+        launchAngle: "launch",
+        arrival: "t (Rs/c)",
+        aim: "Aim",
+        close: "Close",
+        direct: "direct",
+        otherSide: "other side",
+        loop: "loop",
+      },
+      radarEcho: "Radar Echo",
+      radar: {
+        title: "Shapiro delay and radar echo",
+        emitterRadius: "Emitter radius",
+        receiverRadius: "Receiver radius",
+        separation: "Separation",
+        searching: "searching for rays…",
+        noRays: "No ray connects the two points",
+        side: "side",
+        sides: { ccw: "ccw", cw: "cw" },
+        travelTime: "t",
+        delay: "Δt",
+        echo: "τ echo",
+        periapsis: "r min",
+        flat: "flat t",
+        sweep: "Sweep separations",
+        sweeping: "sweeping",
+        measured: "measured",
+        weakField: "weak field",
+        delayAxis: "Δt (Rs/c)",
+        periapsisAxis: "closest approach (Rs)",
+      },
+      orbit: {
+        title: "Effective potential",
+        potential: "V_eff / E²",
+        energy: "energy E²",
+        turningPoints: "turning points",
+        none: "none",
+      },
+      deflection: {
+        title: "Deflection angle",
+        measured: "measured",
+        weakField: "weak field 2Rs/b",
+        exact: "exact",
+        noSamples: "Move lasers so their rays escape to see them here"
+      },
+      progradeOrbit: "Prograde photon orbit",
+      retrogradeOrbit: "Retrograde photon orbit",
+      ergosphere: "Ergosphere",
+      horizon: "Horizon"
     },
     es: {
       title: "Óptica de agujeros negros",
       subtitle: "por Dr. Z",
       cleanAll: "Limpiar Todo",
+      undo: "Deshacer",
+      redo: "Rehacer",
       gravitation: "Gravitación",
       showGrid: "Mostrar Cuadrícula",
+      gridModes: { cartesian: "Cartesiana x, y", radial: "Círculos de r" },
+      properDistance: "distancia propia al horizonte (Rs)",
+      lightCones: "Conos de Luz",
+      lightConeModes: { off: "No", schwarzschild: "t de Schwarzschild", 'eddington-finkelstein': "Eddington–Finkelstein" },
+      embeddingDiagram: "Diagrama de Inmersión",
+      embedding: {
+        title: "Diagrama de inmersión del plano ecuatorial",
+        outerRadius: "Radio exterior",
+        hint: "arrastrar para girar · rueda para acercar",
+        unsupported: "El plano ecuatorial de un agujero en rotación no admite esta inmersión",
+      },
       howToUse: "Cómo Usar",
       instructions: [
         "• Haz clic en cualquier lugar para colocar un láser",
@@ -270,7 +500,9 @@ function BlackHoleComponent() {
         "• Shift + Clic derecho para editar coordenadas",
         "• Usa la rueda del ratón para zoom",
         "• Alt + arrastra o clic central para desplazar",
-        "• Activa gravitación para ver curvatura de luz"
+        "• Activa gravitación para ver curvatura de luz",
+        "• Elige un espacio-tiempo y ajusta su parámetro",
+        "• Cambia el emisor para disparar partículas masivas"
       ],
       zoomIn: "+",
       zoomOut: "-",
@@ -279,7 +511,157 @@ function BlackHoleComponent() {
       latestCommit: "Última confirmación:",
       laserNumber: "Láser #",
       coordinates: "Coordenadas (en unidades Rs)",
-      close: "×"
+      close: "×",
+      integrator: "Integrador",
+      fixedStep: "Paso fijo (RK4)",
+      tolerance: "Tolerancia",
+      worldRadius: "Radio del mundo",
+      data: "Datos",
+      placeOptics: "Clic coloca",
+      noOptics: "Emisores",
+      optics: {
+        title: "Espejos y detectores",
+        kinds: { 'flat-mirror': "Espejo plano", 'circular-mirror': "Espejo circular", detector: "Detector" },
+        size: { 'flat-mirror': "longitud", 'circular-mirror': "radio", detector: "longitud" },
+        angle: "ángulo",
+        hits: "impactos",
+        ray: "rayo",
+        position: "posición (Rs)",
+        incidence: "incidencia",
+        arrival: "t (Rs/c)",
+        remove: "Eliminar",
+      },
+      figure: "Figura",
+      figureStyles: { print: "Impresión", legend: "Leyenda", stars: "Estrellas" },
+      figureFailed: "No se pudo exportar la figura",
+      computeFailed: "No se pudieron trazar los rayos",
+      fate: "Destino",
+      fates: { captured: "capturado", escaped: "escapa", 'max-steps': "máx. pasos", absorbed: "detectado" },
+      constraintDrift: "Deriva de la ligadura nula",
+      unreliable: "no confiable",
+      spacetime: "Espacio-tiempo",
+      metrics: {
+        schwarzschild: "Schwarzschild",
+        kerr: "Kerr",
+        'reissner-nordstrom': "Reissner–Nordström",
+        'schwarzschild-de-sitter': "Schwarzschild–de Sitter",
+        newtonian: "Corpúsculo newtoniano"
+      },
+      metricParameters: {
+        spin: "Espín a/M",
+        charge: "Carga Q/M",
+        cosmologicalConstant: "Λ (Rs⁻²)"
+      },
+      innerHorizon: "Horizonte interior",
+      compareNewtonian: "Comparar con Newton",
+      emitter: "Emisor",
+      emitters: { laser: "Láser", particle: "Partícula masiva" },
+      pattern: "Patrón",
+      patterns: { ray: "Rayo único", beam: "Haz paralelo", fan: "Abanico", point: "Fuente puntual" },
+      rayCount: "Rayos",
+      beamWidth: "Ancho",
+      aperture: "Apertura",
+      raysEscaped: "escapan",
+      raysCaptured: "capturados",
+      launchSpeed: "Velocidad de lanzamiento (c)",
+      particleNumber: "Partícula #",
+      speed: "Velocidad:",
+      energyPerMass: "E/m",
+      angularMomentumPerMass: "L/m",
+      properTime: "Tiempo propio τ",
+      escapeSpeed: "Velocidad de escape",
+      isco: "ISCO",
+      photonSphere: "Esfera de Fotones",
+      shadowRadius: "Radio de la Sombra",
+      impactParameter: "Parámetro de impacto b",
+      criticalImpactParameter: "b_c crítico",
+      belowCritical: "bajo el crítico: capturado",
+      aboveCritical: "sobre el crítico: escapa",
+      snapToCritical: "Ajustar al b crítico",
+      exportScene: "Exportar",
+      importScene: "Importar",
+      shareScene: "Compartir Enlace",
+      invalidScene: "Escena inválida",
+      linkCopied: "Enlace copiado al portapapeles",
+      sceneLoaded: "Escena cargada",
+      deflectionPanel: "Panel de Deflexión",
+      animation: "Animar Propagación",
+      play: "Reproducir",
+      pause: "Pausa",
+      clocks: { coordinate: "Tiempo coordenado t", infalling: "Observador en caída τ" },
+      observerCamera: "Cámara del Observador",
+      camera: {
+        title: "Vista del observador",
+        modes: { strip: "Franja ecuatorial", image: "Imagen completa" },
+        fieldOfView: "Campo de visión",
+        tracing: "trazando…",
+      },
+      accretionDisk: "Disco de Acreción",
+      disk: {
+        title: "Disco de acreción delgado",
+        inclination: "Inclinación",
+        outerRadius: "Radio exterior",
+        innerEdge: "ISCO",
+        redshift: "corrimiento g",
+        unsupported: "La imagen del disco requiere un agujero sin rotación",
+        tracing: "trazando…",
+      },
+      connect: {
+        start: "Conectar con un objetivo…",
+        title: "Rayos al objetivo desde el láser",
+        pick: "Haz clic en un punto o en un detector",
+        repick: "Elegir otro objetivo",
+        maxWinding: "Vueltas hasta",
+        searching: "buscando rayos…",
+        none: "Ningún rayo alcanza el objetivo",
+        launchAngle: "lanzamiento",
+        arrival: "t (Rs/c)",
+        aim: "Apuntar",
+        close: "Cerrar",
+        direct: "directo",
+        otherSide: "otro lado",
+        loop: "vuelta",
+      },
+      radarEcho: "Eco de Radar",
+      radar: {
+        title: "Retardo de Shapiro y eco de radar",
+        emitterRadius: "Radio del emisor",
+        receiverRadius: "Radio del receptor",
+        separation: "Separación",
+        searching: "buscando rayos…",
+        noRays: "Ningún rayo une los dos puntos",
+        side: "lado",
+        sides: { ccw: "antihor.", cw: "horario" },
+        travelTime: "t",
+        delay: "Δt",
+        echo: "τ eco",
+        periapsis: "r mín",
+        flat: "t plano",
+        sweep: "Barrer separaciones",
+        sweeping: "barriendo",
+        measured: "medido",
+        weakField: "campo débil",
+        delayAxis: "Δt (Rs/c)",
+        periapsisAxis: "máximo acercamiento (Rs)",
+      },
+      orbit: {
+        title: "Potencial efectivo",
+        potential: "V_ef / E²",
+        energy: "energía E²",
+        turningPoints: "puntos de retorno",
+        none: "ninguno",
+      },
+      deflection: {
+        title: "Ángulo de deflexión",
+        measured: "medido",
+        weakField: "campo débil 2Rs/b",
+        exact: "exacto",
+        noSamples: "Mueve los láseres para que sus rayos escapen y verlos aquí"
+      },
+      progradeOrbit: "Órbita de fotones progrado",
+      retrogradeOrbit: "Órbita de fotones retrógrado",
+      ergosphere: "Ergosfera",
+      horizon: "Horizonte"
     }
   }), []);
 
@@ -299,6 +681,259 @@ function BlackHoleComponent() {
   
   const gridSpacing = useMemo(() => 0.5 * rs * zoom, [rs, zoom]);
 
+  // Spacetime actually traced: the gravity switch sets the mass
+  const activeMetric = useMemo(
+    () => ({ ...metric, massFactor: gravityEnabled ? 1 : 0 }),
+    [metric, gravityEnabled]
+  );
+
+  // Integration requests of the rays of all fired lasers in the given spacetime, keyed by ray
+  const laserRequests = useCallback((tracedMetric: MetricParams) => new Map(
+    lasers.filter((laser) => laser.fired).flatMap((laser) => emitterRays(laser).map((ray, i) => [
+      rayKey(laser.id, i),
+      pathRequest(laser, ray, tracedMetric, tolerance, worldRadius, optics),
+    ] as const))
+  ), [lasers, tolerance, worldRadius, optics]);
+
+  // Failed ray computations are reported where scene errors are
+  const reportComputeError = useCallback((error: Error) => {
+    setSceneMessage({ text: `${t.computeFailed}: ${error.message}`, error: true });
+  }, [t]);
+
+  const lightPaths = useTrajectories(
+    useMemo(() => laserRequests(activeMetric), [laserRequests, activeMetric]),
+    'ray',
+    reportComputeError
+  );
+
+  // Newtonian corpuscles launched like the lasers, drawn as ghosts
+  const showNewtonianGhosts = compareNewtonian && gravityEnabled && metric.kind !== 'newtonian';
+  const newtonianPaths = useTrajectories(
+    useMemo(
+      () => showNewtonianGhosts
+        ? laserRequests({ ...DEFAULT_METRIC, kind: 'newtonian' })
+        : new Map<string, TrajectoryRequest>(),
+      [showNewtonianGhosts, laserRequests]
+    ),
+    'newton',
+    reportComputeError
+  );
+
+  // Radar experiment: the rays from the emitter to the receiver and back
+  const radarProblems = useMemo((): [ShootingProblem, ShootingProblem] | [null, null] => {
+    if (!radar) return [null, null];
+    const { emitter, receiver } = radarEndpoints(radar);
+    const options = radarOptions(activeMetric, radar);
+    return [
+      { from: emitter, to: receiver, options, shooting: RADAR_SHOOTING },
+      { from: receiver, to: emitter, options, shooting: RADAR_SHOOTING },
+    ];
+  }, [radar, activeMetric]);
+  const radarRays = useConnectingRays(radarProblems[0], reportComputeError);
+  const radarEchoes = useConnectingRays(radarProblems[1], reportComputeError);
+
+  // Rays of the connecting laser through its target, a point or a detector.
+  // Windings bring the rays exponentially close to the photon orbit: each
+  // turn takes about 9 more halvings of the launch angle to resolve
+  const connectLaser = connect ? lasers.find((laser) => laser.id === connect.laserId) : undefined;
+  // Turning the laser (e.g. aiming it along an image) keeps the problem
+  const connectFromX = connectLaser?.x;
+  const connectFromY = connectLaser?.y;
+  const connectTarget = useMemo(() => {
+    const target = connect?.target;
+    if (!target) return null;
+    if (!('detector' in target)) return target;
+    const detector = optics.find((element) => element.id === target.detector);
+    return detector ? { x: detector.x, y: detector.y } : null;
+  }, [connect?.target, optics]);
+  const connectProblem = useMemo((): ShootingProblem | null => {
+    if (!connect || connectFromX === undefined || connectFromY === undefined || !connectTarget) return null;
+    return {
+      from: { x: connectFromX, y: connectFromY },
+      to: connectTarget,
+      options: {
+        metric: activeMetric,
+        escapeRadius: worldRadius,
+        tolerance: tolerance || 1e-8,
+        maxStep: 0.1,
+        maxSteps: 20000,
+      },
+      shooting: { maxWinding: connect.maxWinding, maxDepth: 10 + 9 * connect.maxWinding },
+    };
+  }, [connect, connectFromX, connectFromY, connectTarget, activeMetric, worldRadius, tolerance]);
+  const connectRays = useConnectingRays(connectProblem, reportComputeError);
+
+  // Strokes of the trajectory layer, in world coordinates.  While animating,
+  // each point carries the reading of the chosen clock; in coordinate time
+  // captured rays never reach the horizon and stay frozen just outside it
+  const trajectoryStrokes = useMemo(() => {
+    const timed = (trajectory: Trajectory) => showAnimation ? {
+      times: trajectory.points.map((point) => animationClock === 'coordinate' ? point.t : point.infallingTime),
+      holdAtEnd: animationClock === 'coordinate' && trajectory.termination === 'captured',
+    } : {};
+    const strokes: RayStroke[] = [];
+    for (const laser of lasers) {
+      for (let i = 0; i < (laser.pattern === 'ray' ? 1 : laser.count); i++) {
+        const key = rayKey(laser.id, i);
+        const ghost = newtonianPaths.get(key);
+        if (ghost) {
+          strokes.push({
+            id: `newton-${key}`,
+            points: ghost.points,
+            color: 'rgba(253, 224, 71, 0.6)',
+            width: 1,
+            ...timed(ghost),
+          });
+        }
+        const path = lightPaths.get(key);
+        if (path) {
+          strokes.push({
+            id: key,
+            points: path.points,
+            color: laser.kind === 'particle' ? '#fb923c' : '#ef4444',
+            width: 1,
+            ...timed(path),
+          });
+        }
+      }
+    }
+    for (const [i, ray] of (radarRays ?? []).entries()) {
+      strokes.push({ id: `radar-${i}`, points: ray.trajectory.points, color: '#22d3ee', width: 1.5, ...timed(ray.trajectory) });
+    }
+    for (const [i, ray] of (connectRays ?? []).entries()) {
+      strokes.push({
+        id: `connect-${i}`,
+        points: ray.trajectory.points,
+        color: IMAGE_COLORS[i % IMAGE_COLORS.length],
+        width: 1.5,
+        dash: [6, 3],
+        ...timed(ray.trajectory),
+      });
+    }
+    return strokes;
+  }, [lasers, lightPaths, newtonianPaths, radarRays, connectRays, showAnimation, animationClock]);
+
+  // Paths of the emitters, lifted onto the embedding diagram
+  const embeddingPaths = useMemo(() => lasers.flatMap((laser) =>
+    emitterRays(laser).flatMap((_, i) => {
+      const path = lightPaths.get(rayKey(laser.id, i));
+      return path ? [{ points: path.points, color: laser.kind === 'particle' ? '#fb923c' : '#ef4444' }] : [];
+    })
+  ), [lasers, lightPaths]);
+
+  // Length of the timeline: until the last ray ends
+  const animationDuration = useMemo(() => Math.min(
+    MAX_ANIMATION_TIME,
+    Math.max(1, ...trajectoryStrokes.map((stroke) => stroke.times?.at(-1) ?? 0).filter(Number.isFinite))
+  ), [trajectoryStrokes]);
+
+  // Advance the clock while playing, looping at the end of the timeline
+  useEffect(() => {
+    if (!showAnimation || !playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const elapsed = (now - last) / 1000;
+      last = now;
+      setClockTime((time) => {
+        const next = time + elapsed * ANIMATION_RATE;
+        return next > animationDuration ? 0 : next;
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [showAnimation, playing, animationDuration]);
+
+  // Radii of the drawn horizon and overlays, in units of r_s
+  const drawnMetric = useMemo(() => createMetric(metric), [metric]);
+  const horizonRadius = drawnMetric.captureRadius;
+  const photonOrbits = useMemo(() => kerrPhotonOrbitRadii(metric.spin), [metric.spin]);
+  const showKerrOverlays = gravityEnabled && metric.kind === 'kerr' && metric.spin > 0;
+
+  // Photon orbits and shadow edges, one circle per distinct radius
+  const photonOrbitCircles = useMemo(() => drawnMetric.photonOrbits.filter(
+    (orbit, i, orbits) => orbits.findIndex((o) => o.radius === orbit.radius) === i
+  ), [drawnMetric]);
+  const shadowRadii = useMemo(() => [
+    ...new Set(drawnMetric.photonOrbits.map((orbit) => Math.abs(orbit.impactParameter))),
+  ], [drawnMetric]);
+  const innerHorizonRadius = gravityEnabled && metric.kind === 'reissner-nordstrom' && metric.charge > 0
+    ? reissnerNordstromHorizons(metric.charge).inner
+    : null;
+  const parameterSlider = METRIC_PARAMETER_SLIDERS[metric.kind];
+
+  // Deflection of every escaped laser ray, for the analysis panel
+  const deflectionSamples = useMemo<DeflectionSample[]>(() => {
+    if (!showDeflectionPanel) return [];
+    return lasers.flatMap((laser) => {
+      if (laser.kind !== 'laser') return [];
+      return emitterRays(laser).flatMap((_, i) => {
+        const trajectory = lightPaths.get(rayKey(laser.id, i));
+        const deflection = trajectory ? measuredDeflection(trajectory, activeMetric) : null;
+        return trajectory && deflection !== null ? [{
+          id: laser.pattern === 'ray' ? `${laser.id}` : `${laser.id}.${i}`,
+          impactParameter: Math.abs(trajectory.impactParameter),
+          deflection,
+        }] : [];
+      });
+    });
+  }, [showDeflectionPanel, lasers, lightPaths, activeMetric]);
+
+  // Rays absorbed by the detectors
+  const hits = useMemo(() => detectorHits(optics, lasers.flatMap((laser) =>
+    emitterRays(laser).flatMap((_, i) => {
+      const trajectory = lightPaths.get(rayKey(laser.id, i));
+      return trajectory ? [{ emitter: laser.id, ray: i, trajectory }] : [];
+    })
+  )), [optics, lasers, lightPaths]);
+
+  // Innermost stable circular orbits, shown while particles are around
+  const iscoRadii = useMemo(
+    () => kerrIscoRadii(metric.kind === 'kerr' ? metric.spin : 0),
+    [metric.kind, metric.spin]
+  );
+  // Inner edge of the accretion disk
+  const diskInnerRadius = useMemo(() => createMetric(activeMetric).innermostStableOrbit, [activeMetric]);
+
+  // Curved-coordinate overlays: circles of constant r with ticks of proper
+  // radial distance, and the light cones of a lattice of points.  Steps
+  // (Rs) grow with the view so that neither crowds the screen
+  const screenScale = rs * zoom;
+  const screenOrigin = { x: BH_CENTER.x + panOffset.x, y: BH_CENTER.y + panOffset.y };
+  const screenRadius = Math.hypot(
+    Math.max(screenOrigin.x, playgroundWidth - screenOrigin.x),
+    Math.max(screenOrigin.y, playgroundHeight - screenOrigin.y)
+  ) / screenScale;
+  const ringStep = OVERLAY_STEPS.find((step) => step * screenScale >= 20) ?? OVERLAY_STEPS[OVERLAY_STEPS.length - 1];
+  const coneStep = OVERLAY_STEPS.find((step) => step * screenScale >= 50) ?? OVERLAY_STEPS[OVERLAY_STEPS.length - 1];
+  const radialTicks = useMemo(() => {
+    if (!showGrid || gridMode !== 'radial') return [];
+    return properDistanceTicks(embeddingProfile(activeMetric, Math.ceil(screenRadius)), ringStep);
+  }, [showGrid, gridMode, activeMetric, screenRadius, ringStep]);
+  const coneField = useMemo(() => {
+    if (lightCones === 'off' || !supportsLightCones(activeMetric)) return [];
+    const spacetime = createMetric(activeMetric);
+    const cones = [];
+    const ox = BH_CENTER.x + panOffset.x;
+    const oy = BH_CENTER.y + panOffset.y;
+    for (let i = Math.floor(-ox / screenScale / coneStep); i * coneStep * screenScale <= playgroundWidth - ox; i++) {
+      for (let j = Math.floor((oy - playgroundHeight) / screenScale / coneStep); j * coneStep * screenScale <= oy; j++) {
+        const x = i * coneStep;
+        const y = j * coneStep;
+        const r = Math.hypot(x, y);
+        if (r === 0) continue;
+        const front = lightFront(spacetime, r, lightCones);
+        if (front) cones.push({ x, y, r, ...front });
+      }
+    }
+    return cones;
+  }, [lightCones, activeMetric, BH_CENTER, panOffset.x, panOffset.y, screenScale, coneStep, playgroundWidth, playgroundHeight]);
+
+  const showIsco = gravityEnabled
+    && (metric.kind === 'schwarzschild' || metric.kind === 'kerr')
+    && lasers.some((laser) => laser.kind === 'particle');
+
   // Initialize client-side state
   useEffect(() => {
     setIsClient(true);
@@ -332,6 +967,66 @@ function BlackHoleComponent() {
     });
   }, [minZoom, maxZoom]);
 
+  const snapshot = useMemo((): SceneSnapshot => ({
+    lasers, optics, metric, tolerance, worldRadius, gravityEnabled, showGrid, observer,
+  }), [lasers, optics, metric, tolerance, worldRadius, gravityEnabled, showGrid, observer]);
+
+  /**
+   * Push the current scene onto the undo history before an edit.
+   * Consecutive calls with the same key (one drag, one rotation, typing
+   * into one field) collapse into a single undo step.
+   */
+  const recordHistory = useCallback((key: string | null = null) => {
+    if (key !== null && key === lastHistoryKey.current) return;
+    lastHistoryKey.current = key;
+    setHistory((prev) => ({ past: [...prev.past, snapshot].slice(-HISTORY_LIMIT), future: [] }));
+  }, [snapshot]);
+
+  // Start of a new gesture on a control (pressing a slider, focusing a
+  // field): its edits no longer merge with those of the previous gesture
+  const beginHistoryStep = useCallback(() => {
+    lastHistoryKey.current = null;
+  }, []);
+
+  const restoreSnapshot = useCallback((scene: SceneSnapshot) => {
+    setLasers(scene.lasers);
+    setOptics(scene.optics);
+    setMetric(scene.metric);
+    setTolerance(scene.tolerance);
+    setWorldRadius(scene.worldRadius);
+    setGravityEnabled(scene.gravityEnabled);
+    setShowGrid(scene.showGrid);
+    setObserver(scene.observer);
+    setEditingLaserId(null);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    if (history.past.length === 0) return;
+    lastHistoryKey.current = null;
+    setHistory({ past: history.past.slice(0, -1), future: [snapshot, ...history.future] });
+    restoreSnapshot(history.past[history.past.length - 1]);
+  }, [history, snapshot, restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    if (history.future.length === 0) return;
+    lastHistoryKey.current = null;
+    setHistory({ past: [...history.past, snapshot], future: history.future.slice(1) });
+    restoreSnapshot(history.future[0]);
+  }, [history, snapshot, restoreSnapshot]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (e.target instanceof HTMLInputElement) return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
   // Optimize canvas click handler
   const handleCanvasClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     // Reset wasPanning flag first, then check if we should skip this click
@@ -350,28 +1045,56 @@ function BlackHoleComponent() {
     
     const distanceFromCenter = Math.hypot(relativeX, relativeY);
     const blackHoleRadius = rs / zoom;
+
+    if (connect && connect.target === null) {
+      setConnect({ ...connect, target: { x: relativeX / rs, y: -relativeY / rs } });
+      return;
+    }
+
+    if (opticsTool) {
+      recordHistory();
+      setOptics((prev) => [...prev, {
+        id: Math.max(0, ...prev.map((element) => element.id + 1)),
+        kind: opticsTool,
+        x: relativeX / rs,
+        y: -relativeY / rs,
+        ...OPTICAL_DEFAULTS[opticsTool],
+      }]);
+      setOpticsTool(null);
+      return;
+    }
     
     if (distanceFromCenter > blackHoleRadius) {
       const newLaser: Laser = {
         id: nextId,
-        x: relativeX,
-        y: relativeY,
+        kind: emitterKind,
+        x: relativeX / rs,
+        y: -relativeY / rs,
         fired: true,
         angle: e.shiftKey ? 90 : 0,
+        speed: particleSpeed,
+        pattern: emitterPattern,
+        count: DEFAULT_RAY_COUNTS[emitterPattern],
+        beamWidth: 2,
+        aperture: 30,
         direction: 'right',
       };
+      recordHistory();
       setLasers((prev) => [...prev, newLaser]);
       setNextId((prev) => prev + 1);
     }
-  }, [isDragging, isPanning, wasPanning, zoom, BH_SIZE, nextId, BH_CENTER, rs, panOffset]);
+  }, [isDragging, isPanning, wasPanning, zoom, nextId, BH_CENTER, rs, panOffset, emitterKind, emitterPattern, particleSpeed, recordHistory, opticsTool, connect]);
 
   // Optimize laser handlers
   const handleLaserDoubleClick = useCallback((id: number) => {
+    recordHistory();
     setLasers((prev) => prev.filter((laser) => laser.id !== id));
-  }, []);
+  }, [recordHistory]);
 
   const handleLaserMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>, id: number) => {
     e.stopPropagation();
+    // Each drag, rotation or edit dialog is a separate undo step
+    gestureCount.current += 1;
     
     if (e.button === 0) {
       setIsDragging(true);
@@ -387,9 +1110,8 @@ function BlackHoleComponent() {
       if (e.shiftKey) {
         const laser = lasers.find(l => l.id === id);
         if (laser) {
-          const rs = BH_SIZE * 0.25;
-          const xInRs = laser.x / rs;
-          const yInRs = -laser.y / rs;
+          const xInRs = laser.x;
+          const yInRs = laser.y;
           // Convert from screen coordinates to physics coordinates
           // Screen: 0°=right, 90°=down, 180°=left, 270°=up
           // Physics: 0°=right, 90°=up, 180°=left, -90°=down
@@ -400,7 +1122,11 @@ function BlackHoleComponent() {
           setTempInputValues({
             x: xInRs.toFixed(2),
             y: yInRs.toFixed(2),
-            angle: displayAngle.toFixed(1)
+            angle: displayAngle.toFixed(1),
+            speed: laser.speed.toFixed(3),
+            count: `${laser.count}`,
+            beamWidth: laser.beamWidth.toFixed(2),
+            aperture: laser.aperture.toFixed(1),
           });
           setEditingLaserId(id);
         }
@@ -409,9 +1135,9 @@ function BlackHoleComponent() {
         setLastMouseX(e.clientX);
       }
     }
-  }, [lasers, zoom, BH_SIZE]);
+  }, [lasers]);
 
-  const handleLaserEdit = useCallback((field: 'x' | 'y' | 'angle', value: string) => {
+  const handleLaserEdit = useCallback((field: EditableField, value: string) => {
     if (editingLaserId !== null) {
       // Update temporary input value immediately
       setTempInputValues(prev => ({
@@ -422,36 +1148,96 @@ function BlackHoleComponent() {
       // Only update laser if value is a valid number
       const numValue = parseFloat(value);
       if (!isNaN(numValue)) {
-        const rs = BH_SIZE * 0.25;
-        
+        recordHistory(`edit-${gestureCount.current}-${field}`);
         setLasers(prev =>
           prev.map(laser =>
             laser.id === editingLaserId
               ? {
                   ...laser,
-                  ...(field === 'x' ? { x: numValue * rs } : {}),
-                  ...(field === 'y' ? { y: -numValue * rs } : {}), // Negate Y to convert back to screen coordinates
+                  ...(field === 'x' ? { x: numValue } : {}),
+                  ...(field === 'y' ? { y: numValue } : {}),
                   ...(field === 'angle' ? { 
                     // Convert from physics coordinates back to screen coordinates
                     // Physics: 0°=right, 90°=up, 180°=left, -90°=down
                     // Screen: 0°=right, 90°=down, 180°=left, 270°=up
                     angle: ((-numValue % 360) + 360) % 360
-                  } : {})
+                  } : {}),
+                  // Particles must stay slower than light
+                  ...(field === 'speed' ? { speed: Math.min(0.999, Math.max(0, numValue)) } : {}),
+                  ...(field === 'count' ? { count: Math.min(MAX_RAY_COUNT, Math.max(2, Math.round(numValue))) } : {}),
+                  ...(field === 'beamWidth' ? { beamWidth: Math.min(50, Math.max(0, numValue)) } : {}),
+                  ...(field === 'aperture' ? { aperture: Math.min(360, Math.max(0, numValue)) } : {})
                 }
               : laser
           )
         );
       }
     }
-  }, [editingLaserId, BH_SIZE]);
+  }, [editingLaserId, recordHistory]);
+
+  // Point a laser along a physics angle (radians, counter-clockwise)
+  const aimLaser = useCallback((id: number, angle: number) => {
+    // Back from physics (counter-clockwise, y up) to screen degrees
+    const screenAngle = normalizeAngle((-angle * 180) / Math.PI);
+    recordHistory();
+    setLasers((prev) => prev.map((l) => (l.id === id ? { ...l, angle: screenAngle } : l)));
+    if (editingLaserId === id) {
+      let displayAngle = -screenAngle;
+      while (displayAngle <= -180) displayAngle += 360;
+      setTempInputValues((prev) => ({ ...prev, angle: displayAngle.toFixed(1) }));
+    }
+  }, [editingLaserId, recordHistory]);
+
+  // Rotate a laser so that its ray winds onto the photon orbit
+  const handleSnapToCritical = useCallback((id: number) => {
+    const laser = lasers.find((l) => l.id === id);
+    if (!laser) return;
+    const angle = criticalLaunchAngle(
+      { x: laser.x, y: laser.y, angle: (-laser.angle * Math.PI) / 180 },
+      activeMetric
+    );
+    if (angle !== null) aimLaser(id, angle);
+  }, [lasers, activeMetric, aimLaser]);
 
   const handleCloseLaserEdit = useCallback(() => {
     setEditingLaserId(null);
   }, []);
 
   const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
-    if (rotatingLaserId !== null && lastMouseX !== null) {
+    if (observerGesture === 'rotate' && lastMouseX !== null) {
+      // Same feel as lasers: dragging right turns the camera clockwise
+      const deltaX = e.clientX - lastMouseX;
+      recordHistory(`observer-rotate-${gestureCount.current}`);
+      setObserver((prev) => prev && { ...prev, angle: prev.angle - (deltaX * 0.5 * Math.PI) / 180 });
+      setLastMouseX(e.clientX);
+    }
+    else if (opticsGesture?.mode === 'rotate' && lastMouseX !== null) {
+      const deltaX = e.clientX - lastMouseX;
+      recordHistory(`optics-rotate-${gestureCount.current}`);
+      setOptics((prev) => prev.map((element) =>
+        element.id === opticsGesture.id ? { ...element, angle: normalizeAngle(element.angle - deltaX * 0.5) } : element
+      ));
+      setLastMouseX(e.clientX);
+    }
+    else if (opticsGesture?.mode === 'drag') {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const relativeX = (e.clientX - rect.left - BH_CENTER.x - panOffset.x) / zoom;
+      const relativeY = (e.clientY - rect.top - BH_CENTER.y - panOffset.y) / zoom;
+      recordHistory(`optics-drag-${gestureCount.current}`);
+      setOptics((prev) => prev.map((element) =>
+        element.id === opticsGesture.id ? { ...element, x: relativeX / rs, y: -relativeY / rs } : element
+      ));
+    }
+    else if (observerGesture === 'drag') {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const relativeX = (e.clientX - rect.left - BH_CENTER.x - panOffset.x) / zoom;
+      const relativeY = (e.clientY - rect.top - BH_CENTER.y - panOffset.y) / zoom;
+      recordHistory(`observer-drag-${gestureCount.current}`);
+      setObserver((prev) => prev && { ...prev, x: relativeX / rs, y: -relativeY / rs });
+    }
+    else if (rotatingLaserId !== null && lastMouseX !== null) {
       const deltaX = e.clientX - lastMouseX;
+      recordHistory(`rotate-${gestureCount.current}`);
       setLasers((prev) =>
         prev.map((laser) =>
           laser.id === rotatingLaserId
@@ -469,9 +1255,10 @@ function BlackHoleComponent() {
       const relativeX = (x - BH_CENTER.x - panOffset.x) / zoom;
       const relativeY = (y - BH_CENTER.y - panOffset.y) / zoom;
       
+      recordHistory(`drag-${gestureCount.current}`);
       setLasers((prev) =>
         prev.map((laser) =>
-          laser.id === draggedLaserId ? { ...laser, x: relativeX, y: relativeY } : laser
+          laser.id === draggedLaserId ? { ...laser, x: relativeX / rs, y: -relativeY / rs } : laser
         )
       );
     }
@@ -480,7 +1267,7 @@ function BlackHoleComponent() {
       const deltaY = e.clientY - panStart.y;
       setPanOffset({ x: deltaX, y: deltaY });
     }
-  }, [rotatingLaserId, lastMouseX, isDragging, draggedLaserId, zoom, isPanning, panStart, BH_CENTER, panOffset]);
+  }, [observerGesture, opticsGesture, rotatingLaserId, lastMouseX, isDragging, draggedLaserId, zoom, isPanning, panStart, BH_CENTER, panOffset, rs, recordHistory]);
 
   const handleMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     if (e.button === 1 || (e.button === 0 && e.altKey)) { // Middle mouse or Alt+Left click for panning
@@ -491,6 +1278,8 @@ function BlackHoleComponent() {
   }, [panOffset]);
 
   const handleMouseUp = useCallback((e: React.MouseEvent) => {
+    setObserverGesture(null);
+    setOpticsGesture(null);
     if (e.button === 0) {
       setIsDragging(false);
       setDraggedLaserId(null);
@@ -518,8 +1307,198 @@ function BlackHoleComponent() {
   }, []);
 
   const handleCleanAll = useCallback(() => {
+    if (lasers.length === 0) return;
+    recordHistory();
     setLasers([]);
-  }, []);
+  }, [lasers, recordHistory]);
+
+  // Current scene in window-independent units (r_s, y up)
+  const buildScene = useCallback((): Scene => {
+    const rs = BH_SIZE * 0.25;
+    return {
+      version: SCENE_VERSION,
+      emitters: lasers.map((laser) => {
+        let angle = -laser.angle;
+        while (angle <= -180) angle += 360;
+        return {
+          kind: laser.kind,
+          x: laser.x,
+          y: laser.y,
+          angle,
+          speed: laser.speed,
+          pattern: laser.pattern,
+          count: laser.count,
+          beamWidth: laser.beamWidth,
+          aperture: laser.aperture,
+        };
+      }),
+      view: { zoom, panX: panOffset.x / (rs * zoom), panY: -panOffset.y / (rs * zoom) },
+      gravityEnabled,
+      showGrid,
+      language,
+      metric: {
+        kind: metric.kind,
+        spin: metric.spin,
+        charge: metric.charge,
+        cosmologicalConstant: metric.cosmologicalConstant,
+      },
+      tolerance,
+      worldRadius,
+      observer: observer && {
+        x: observer.x,
+        y: observer.y,
+        angle: (observer.angle * 180) / Math.PI,
+        fov: (observer.fov * 180) / Math.PI,
+      },
+      optics: optics.map(({ kind, x, y, angle, size }) => ({ kind, x, y, angle, size })),
+    };
+  }, [BH_SIZE, lasers, zoom, panOffset, gravityEnabled, showGrid, language, metric, tolerance, worldRadius, observer, optics]);
+
+  const applyScene = useCallback((scene: Scene) => {
+    const rs = BH_SIZE * 0.25;
+    setLasers(scene.emitters.map((emitter, id) => ({
+      id,
+      kind: emitter.kind,
+      x: emitter.x,
+      y: emitter.y,
+      fired: true,
+      angle: normalizeAngle(-emitter.angle),
+      speed: emitter.speed,
+      pattern: emitter.pattern,
+      count: emitter.pattern === 'ray' ? 1 : Math.max(2, emitter.count),
+      beamWidth: emitter.beamWidth,
+      aperture: emitter.aperture,
+      direction: 'right',
+    })));
+    // Ids of undone layouts must not be handed out again
+    setNextId((prev) => Math.max(prev, scene.emitters.length));
+    setZoom(scene.view.zoom);
+    setPanOffset({ x: scene.view.panX * rs * scene.view.zoom, y: -scene.view.panY * rs * scene.view.zoom });
+    setGravityEnabled(scene.gravityEnabled);
+    setShowGrid(scene.showGrid);
+    setLanguage(scene.language);
+    setMetric({ ...scene.metric, massFactor: 1 });
+    setTolerance(scene.tolerance);
+    setWorldRadius(scene.worldRadius);
+    setObserver(scene.observer && {
+      x: scene.observer.x,
+      y: scene.observer.y,
+      angle: (scene.observer.angle * Math.PI) / 180,
+      fov: (scene.observer.fov * Math.PI) / 180,
+    });
+    setOptics(scene.optics.map((element, id) => ({ id, ...element })));
+    setEditingLaserId(null);
+  }, [BH_SIZE]);
+
+  // Report malformed files and links instead of crashing
+  const describeSceneError = useCallback((error: unknown) => (
+    error instanceof SceneFormatError ? `${t.invalidScene}: ${error.message}` : t.invalidScene
+  ), [t]);
+
+  const handleExportScene = useCallback(() => {
+    downloadBlob(new Blob([sceneToJson(buildScene())], { type: 'application/json' }), 'black-hole-scene.json');
+  }, [buildScene]);
+
+  const handleImportScene = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const scene = sceneFromJson(await file.text());
+      recordHistory();
+      applyScene(scene);
+      setSceneMessage({ text: t.sceneLoaded, error: false });
+    } catch (error) {
+      setSceneMessage({ text: describeSceneError(error), error: true });
+    }
+  }, [applyScene, describeSceneError, recordHistory, t]);
+
+  const handleShareScene = useCallback(async () => {
+    const hash = encodeSceneHash(buildScene());
+    window.history.replaceState(null, '', `#${hash}`);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setSceneMessage({ text: t.linkCopied, error: false });
+    } catch {
+      // Clipboard access denied: the link is still in the address bar
+      setSceneMessage(null);
+    }
+  }, [buildScene, t]);
+
+  // The current view as a standalone figure, in world units
+  const buildFigure = useCallback((): Figure => ({
+    width: playgroundWidth,
+    height: playgroundHeight,
+    origin: { x: BH_CENTER.x + panOffset.x, y: BH_CENTER.y + panOffset.y },
+    scale: rs * zoom,
+    horizonRadius,
+    strokes: lasers.flatMap((laser) => emitterRays(laser).flatMap((_, i) => {
+      const ghost = newtonianPaths.get(rayKey(laser.id, i));
+      const path = lightPaths.get(rayKey(laser.id, i));
+      return [
+        ...(ghost ? [{ role: 'newtonian' as const, points: ghost.points }] : []),
+        ...(path ? [{ role: laser.kind === 'particle' ? 'particle' as const : 'light' as const, points: path.points }] : []),
+      ];
+    })),
+    emitters: lasers.map((laser) => ({
+      id: laser.id,
+      kind: laser.kind,
+      x: laser.x,
+      y: laser.y,
+      angle: normalizeAngle(-laser.angle),
+    })),
+    optics,
+    stars: stars.filter((star) => star.x <= playgroundWidth),
+    grid: showGrid,
+  }), [playgroundWidth, playgroundHeight, BH_CENTER, panOffset, rs, zoom, horizonRadius, lasers, newtonianPaths, lightPaths, optics, stars, showGrid]);
+
+  const handleExportSvg = useCallback(() => {
+    const svg = figureToSvg(buildFigure(), figureOptions);
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'black-hole-figure.svg');
+  }, [buildFigure, figureOptions]);
+
+  const handleExportPng = useCallback(async () => {
+    const figure = buildFigure();
+    try {
+      const png = await svgToPng(figureToSvg(figure, figureOptions), figure.width, figure.height, figureResolution);
+      downloadBlob(png, 'black-hole-figure.png');
+    } catch (error) {
+      setSceneMessage({ text: `${t.figureFailed}: ${(error as Error).message}`, error: true });
+    }
+  }, [buildFigure, figureOptions, figureResolution, t]);
+
+  // Computed rays of one emitter, or of all of them
+  const trajectoryRecords = useCallback((laserId?: number): TrajectoryRecord[] =>
+    lasers.filter((laser) => laserId === undefined || laser.id === laserId).flatMap((laser) =>
+      emitterRays(laser).flatMap((_, i) => {
+        const trajectory = lightPaths.get(rayKey(laser.id, i));
+        return trajectory ? [{ emitter: laser.id, ray: i, kind: laser.kind, trajectory }] : [];
+      })
+    ), [lasers, lightPaths]);
+
+  const handleExportData = useCallback((format: 'csv' | 'json', laserId?: number) => {
+    const records = trajectoryRecords(laserId);
+    const settings = { metric: activeMetric, tolerance, worldRadius };
+    const name = laserId === undefined ? 'black-hole-trajectories' : `black-hole-trajectory-${laserId}`;
+    downloadBlob(
+      format === 'csv'
+        ? new Blob([trajectoriesToCsv(records, settings)], { type: 'text/csv' })
+        : new Blob([trajectoriesToJson(records, settings)], { type: 'application/json' }),
+      `${name}.${format}`
+    );
+  }, [trajectoryRecords, activeMetric, tolerance, worldRadius]);
+
+  // Load the scene carried by the URL, once the window size is known
+  useEffect(() => {
+    if (!isClient || sceneHashLoaded.current) return;
+    sceneHashLoaded.current = true;
+    if (!hasSceneHash(window.location.hash)) return;
+    try {
+      applyScene(decodeSceneHash(window.location.hash));
+    } catch (error) {
+      setSceneMessage({ text: describeSceneError(error), error: true });
+    }
+  }, [isClient, applyScene, describeSceneError]);
 
   // Don't render anything until we're on the client
   if (!isClient) {
@@ -533,7 +1512,7 @@ function BlackHoleComponent() {
     >
       {/* Sidebar */}
       <div 
-        className="absolute left-0 top-0 h-full w-[20%] bg-black/50 backdrop-blur-sm border-r border-white/20 p-6 z-50 flex flex-col"
+        className="absolute left-0 top-0 h-full w-[20%] bg-black/50 backdrop-blur-sm border-r border-white/20 p-6 z-50 flex flex-col overflow-y-auto"
         style={{ pointerEvents: "auto" }}
       >
         <h1 className="text-white text-2xl font-bold mb-6">{t.title}<br/><i>{t.subtitle}</i></h1>
@@ -546,6 +1525,62 @@ function BlackHoleComponent() {
           >
             {t.cleanAll}
           </button>
+          <div className="flex gap-2">
+            <button
+              className="flex-1 bg-white/10 text-white border border-white/30 rounded-lg px-2 py-2 text-sm hover:bg-white/20 transition disabled:opacity-40 disabled:hover:bg-white/10"
+              onClick={handleUndo}
+              disabled={history.past.length === 0}
+              title="Ctrl+Z"
+            >
+              {t.undo}
+            </button>
+            <button
+              className="flex-1 bg-white/10 text-white border border-white/30 rounded-lg px-2 py-2 text-sm hover:bg-white/20 transition disabled:opacity-40 disabled:hover:bg-white/10"
+              onClick={handleRedo}
+              disabled={history.future.length === 0}
+              title="Ctrl+Shift+Z"
+            >
+              {t.redo}
+            </button>
+          </div>
+          {/* Scene export, import and sharing */}
+          <div className="flex gap-2">
+            <button
+              className="flex-1 bg-white/10 text-white border border-white/30 rounded-lg px-2 py-2 text-xs hover:bg-white/20 transition"
+              onClick={handleExportScene}
+            >
+              {t.exportScene}
+            </button>
+            <button
+              className="flex-1 bg-white/10 text-white border border-white/30 rounded-lg px-2 py-2 text-xs hover:bg-white/20 transition"
+              onClick={() => sceneFileInput.current?.click()}
+            >
+              {t.importScene}
+            </button>
+            <button
+              className="flex-1 bg-white/10 text-white border border-white/30 rounded-lg px-2 py-2 text-xs hover:bg-white/20 transition"
+              onClick={handleShareScene}
+            >
+              {t.shareScene}
+            </button>
+            <input
+              ref={sceneFileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImportScene}
+            />
+          </div>
+          {sceneMessage && (
+            <div
+              className={`flex items-start justify-between gap-2 text-xs ${sceneMessage.error ? 'text-red-400' : 'text-green-400'}`}
+            >
+              <span>{sceneMessage.text}</span>
+              <button onClick={() => setSceneMessage(null)} className="text-white/60 hover:text-white/90">
+                {t.close}
+              </button>
+            </div>
+          )}
           {/* Gravity Toggle Button */}
           <div className="flex items-center justify-between">
             <span className="text-white/80 text-sm">{t.gravitation}</span>
@@ -553,7 +1588,10 @@ function BlackHoleComponent() {
               className={`relative w-12 h-6 rounded-full transition-colors duration-200 ${
                 gravityEnabled ? 'bg-blue-500' : 'bg-gray-600'
               }`}
-              onClick={() => setGravityEnabled(!gravityEnabled)}
+              onClick={() => {
+                recordHistory();
+                setGravityEnabled(!gravityEnabled);
+              }}
             >
               <div
                 className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200 ${
@@ -569,7 +1607,10 @@ function BlackHoleComponent() {
               className={`relative w-12 h-6 rounded-full transition-colors duration-200 ${
                 showGrid ? 'bg-green-500' : 'bg-gray-600'
               }`}
-              onClick={() => setShowGrid(!showGrid)}
+              onClick={() => {
+                recordHistory();
+                setShowGrid(!showGrid);
+              }}
             >
               <div
                 className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200 ${
@@ -578,6 +1619,406 @@ function BlackHoleComponent() {
               />
             </button>
           </div>
+          {showGrid && (
+            <div className="flex items-center justify-end">
+              <select
+                value={gridMode}
+                onChange={(e) => setGridMode(e.target.value as GridMode)}
+                className="bg-white/10 text-white text-sm px-2 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+              >
+                {GRID_MODES.map((mode) => (
+                  <option key={mode} value={mode} className="bg-black">
+                    {t.gridModes[mode]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {/* Local light cones across the playground */}
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.lightCones}</span>
+            <select
+              value={lightCones}
+              onChange={(e) => setLightCones(e.target.value as LightConeMode)}
+              className="bg-white/10 text-white text-sm px-2 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+            >
+              {LIGHT_CONE_MODES.map((mode) => (
+                <option key={mode} value={mode} className="bg-black">
+                  {t.lightConeModes[mode]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {/* Embedding diagram toggle */}
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.embeddingDiagram}</span>
+            <button
+              className={`relative w-12 h-6 rounded-full transition-colors duration-200 ${
+                showEmbedding ? 'bg-green-500' : 'bg-gray-600'
+              }`}
+              onClick={() => setShowEmbedding(!showEmbedding)}
+            >
+              <div
+                className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200 ${
+                  showEmbedding ? 'left-7' : 'left-1'
+                }`}
+              />
+            </button>
+          </div>
+          {/* Photon sphere and shadow overlays */}
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.photonSphere}</span>
+            <button
+              className={`relative w-12 h-6 rounded-full transition-colors duration-200 ${
+                showPhotonSphere ? 'bg-yellow-500' : 'bg-gray-600'
+              }`}
+              onClick={() => setShowPhotonSphere(!showPhotonSphere)}
+            >
+              <div
+                className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200 ${
+                  showPhotonSphere ? 'left-7' : 'left-1'
+                }`}
+              />
+            </button>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.shadowRadius}</span>
+            <button
+              className={`relative w-12 h-6 rounded-full transition-colors duration-200 ${
+                showShadow ? 'bg-slate-400' : 'bg-gray-600'
+              }`}
+              onClick={() => setShowShadow(!showShadow)}
+            >
+              <div
+                className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200 ${
+                  showShadow ? 'left-7' : 'left-1'
+                }`}
+              />
+            </button>
+          </div>
+          {/* Observer camera toggle */}
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.observerCamera}</span>
+            <button
+              className={`relative w-12 h-6 rounded-full transition-colors duration-200 ${
+                observer ? 'bg-red-500' : 'bg-gray-600'
+              }`}
+              onClick={() => {
+                recordHistory();
+                setObserver(observer ? null : { x: -10, y: 0, angle: 0, fov: Math.PI / 3 });
+              }}
+            >
+              <div
+                className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200 ${
+                  observer ? 'left-7' : 'left-1'
+                }`}
+              />
+            </button>
+          </div>
+          {/* Accretion disk toggle */}
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.accretionDisk}</span>
+            <button
+              className={`relative w-12 h-6 rounded-full transition-colors duration-200 ${
+                disk ? 'bg-orange-500' : 'bg-gray-600'
+              }`}
+              onClick={() => setDisk(disk ? null : { inclination: (80 * Math.PI) / 180, outerRadius: 15 })}
+            >
+              <div
+                className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200 ${
+                  disk ? 'left-7' : 'left-1'
+                }`}
+              />
+            </button>
+          </div>
+          {/* Radar echo experiment toggle */}
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.radarEcho}</span>
+            <button
+              className={`relative w-12 h-6 rounded-full transition-colors duration-200 ${
+                radar ? 'bg-cyan-500' : 'bg-gray-600'
+              }`}
+              onClick={() => setRadar(radar ? null : { emitterRadius: 20, receiverRadius: 20, separation: (150 * Math.PI) / 180 })}
+            >
+              <div
+                className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200 ${
+                  radar ? 'left-7' : 'left-1'
+                }`}
+              />
+            </button>
+          </div>
+          {/* Animation toggle */}
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.animation}</span>
+            <button
+              className={`relative w-12 h-6 rounded-full transition-colors duration-200 ${
+                showAnimation ? 'bg-red-500' : 'bg-gray-600'
+              }`}
+              onClick={() => {
+                setShowAnimation(!showAnimation);
+                setPlaying(!showAnimation);
+                setClockTime(0);
+              }}
+            >
+              <div
+                className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200 ${
+                  showAnimation ? 'left-7' : 'left-1'
+                }`}
+              />
+            </button>
+          </div>
+          {/* Deflection panel toggle */}
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.deflectionPanel}</span>
+            <button
+              className={`relative w-12 h-6 rounded-full transition-colors duration-200 ${
+                showDeflectionPanel ? 'bg-red-500' : 'bg-gray-600'
+              }`}
+              onClick={() => setShowDeflectionPanel(!showDeflectionPanel)}
+            >
+              <div
+                className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200 ${
+                  showDeflectionPanel ? 'left-7' : 'left-1'
+                }`}
+              />
+            </button>
+          </div>
+          {/* Spacetime selector */}
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-white/80 text-sm">{t.spacetime}</span>
+              <select
+                value={metric.kind}
+                onChange={(e) => {
+                  recordHistory();
+                  setMetric((prev) => ({ ...prev, kind: e.target.value as MetricKind }));
+                }}
+                className="bg-white/10 text-white text-sm px-2 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none max-w-[60%]"
+              >
+                {METRIC_KINDS.map((kind) => (
+                  <option key={kind} value={kind} className="bg-black">
+                    {t.metrics[kind]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {parameterSlider && (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-white/60 text-xs">{t.metricParameters[parameterSlider.key]}</span>
+                  <span className="text-white/60 text-xs font-mono">{metric[parameterSlider.key]}</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={parameterSlider.max}
+                  step={parameterSlider.step}
+                  value={metric[parameterSlider.key]}
+                  onPointerDown={beginHistoryStep}
+                  onKeyDown={beginHistoryStep}
+                  onChange={(e) => {
+                    recordHistory(`metric-${parameterSlider.key}`);
+                    setMetric((prev) => ({ ...prev, [parameterSlider.key]: parseFloat(e.target.value) }));
+                  }}
+                  className="w-full accent-blue-500"
+                />
+              </>
+            )}
+            {showKerrOverlays && (
+              <div className="text-xs font-mono space-y-0.5">
+                <div className="text-white/60">{t.horizon}: r = {horizonRadius.toFixed(3)} Rs</div>
+                <div className="text-orange-400">{t.ergosphere}: r = {kerrErgosphereRadius().toFixed(3)} Rs</div>
+                <div className="text-green-400">{t.progradeOrbit}: r = {photonOrbits.prograde.toFixed(3)} Rs</div>
+                <div className="text-fuchsia-400">{t.retrogradeOrbit}: r = {photonOrbits.retrograde.toFixed(3)} Rs</div>
+              </div>
+            )}
+            {innerHorizonRadius !== null && (
+              <div className="text-xs font-mono space-y-0.5">
+                <div className="text-white/60">{t.horizon}: r = {horizonRadius.toFixed(3)} Rs</div>
+                <div className="text-white/40">{t.innerHorizon}: r = {innerHorizonRadius.toFixed(3)} Rs</div>
+              </div>
+            )}
+          </div>
+          {/* Newtonian comparison toggle */}
+          {metric.kind !== 'newtonian' && (
+            <div className="flex items-center justify-between">
+              <span className="text-white/80 text-sm">{t.compareNewtonian}</span>
+              <button
+                className={`relative w-12 h-6 rounded-full transition-colors duration-200 ${
+                  compareNewtonian ? 'bg-yellow-500' : 'bg-gray-600'
+                }`}
+                onClick={() => setCompareNewtonian(!compareNewtonian)}
+              >
+                <div
+                  className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-200 ${
+                    compareNewtonian ? 'left-7' : 'left-1'
+                  }`}
+                />
+              </button>
+            </div>
+          )}
+          {/* Emitter selector */}
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-white/80 text-sm">{t.emitter}</span>
+              <select
+                value={emitterKind}
+                onChange={(e) => setEmitterKind(e.target.value as EmitterKind)}
+                className="bg-white/10 text-white text-sm px-2 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+              >
+                {(['laser', 'particle'] as const).map((kind) => (
+                  <option key={kind} value={kind} className="bg-black">
+                    {t.emitters[kind]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-white/80 text-sm">{t.pattern}</span>
+              <select
+                value={emitterPattern}
+                onChange={(e) => setEmitterPattern(e.target.value as EmitterPattern)}
+                className="bg-white/10 text-white text-sm px-2 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+              >
+                {EMITTER_PATTERNS.map((pattern) => (
+                  <option key={pattern} value={pattern} className="bg-black">
+                    {t.patterns[pattern]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {emitterKind === 'particle' && (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-white/60 text-xs">{t.launchSpeed}</span>
+                  <span className="text-white/60 text-xs font-mono">{particleSpeed.toFixed(2)}</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={0.99}
+                  step={0.01}
+                  value={particleSpeed}
+                  onChange={(e) => setParticleSpeed(parseFloat(e.target.value))}
+                  className="w-full accent-orange-500"
+                />
+              </>
+            )}
+            {showIsco && (
+              <div className="text-xs font-mono text-orange-300">
+                {t.isco}: r = {[...new Set([iscoRadii.prograde, iscoRadii.retrograde])].map((radius) => radius.toFixed(3)).join(' / ')} Rs
+              </div>
+            )}
+          </div>
+          {/* Integrator selector */}
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.integrator}</span>
+            <select
+              value={tolerance}
+              onChange={(e) => {
+                recordHistory();
+                setTolerance(parseFloat(e.target.value));
+              }}
+              className="bg-white/10 text-white text-sm px-2 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+            >
+              {TOLERANCE_OPTIONS.map((tol) => (
+                <option key={tol} value={tol} className="bg-black">
+                  {tol === 0 ? t.fixedStep : `${t.tolerance} ${tol.toExponential(0)}`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.worldRadius}</span>
+            <select
+              value={worldRadius}
+              onChange={(e) => {
+                recordHistory();
+                setWorldRadius(parseFloat(e.target.value));
+              }}
+              className="bg-white/10 text-white text-sm px-2 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+            >
+              {WORLD_RADIUS_OPTIONS.map((radius) => (
+                <option key={radius} value={radius} className="bg-black">
+                  {radius} Rs
+                </option>
+              ))}
+            </select>
+          </div>
+          {/* Optical element placed by the next click */}
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.placeOptics}</span>
+            <select
+              value={opticsTool ?? ''}
+              onChange={(e) => setOpticsTool((e.target.value || null) as OpticalKind | null)}
+              className="bg-white/10 text-white text-sm px-2 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+            >
+              <option value="" className="bg-black">{t.noOptics}</option>
+              {OPTICAL_KINDS.map((kind) => (
+                <option key={kind} value={kind} className="bg-black">
+                  {t.optics.kinds[kind]}
+                </option>
+              ))}
+            </select>
+          </div>
+          {/* Trajectory data of every emitter */}
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-white/80 text-sm">{t.data}</span>
+            <div className="flex gap-2">
+              {(['csv', 'json'] as const).map((format) => (
+                <button
+                  key={format}
+                  className="bg-white/10 text-white border border-white/30 rounded-lg px-3 py-1 text-xs hover:bg-white/20 transition disabled:opacity-40 disabled:hover:bg-white/10"
+                  onClick={() => handleExportData(format)}
+                  disabled={lightPaths.size === 0}
+                >
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+          {/* Figure export: the current view as SVG or PNG */}
+          <div className="flex items-center justify-between">
+            <span className="text-white/80 text-sm">{t.figure}</span>
+            <select
+              value={figureResolution}
+              onChange={(e) => setFigureResolution(parseFloat(e.target.value))}
+              className="bg-white/10 text-white text-sm px-2 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+            >
+              {FIGURE_RESOLUTIONS.map((resolution) => (
+                <option key={resolution} value={resolution} className="bg-black">
+                  PNG {resolution}×
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            {(['print', 'legend', 'stars'] as const).map((option) => (
+              <button
+                key={option}
+                className={`flex-1 border rounded-lg px-2 py-1 text-xs transition ${
+                  figureOptions[option] ? 'bg-white/30 border-white/60 text-white' : 'bg-white/5 border-white/20 text-white/60 hover:bg-white/10'
+                }`}
+                onClick={() => setFigureOptions((prev) => ({ ...prev, [option]: !prev[option] }))}
+              >
+                {t.figureStyles[option]}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="flex-1 bg-white/10 text-white border border-white/30 rounded-lg px-2 py-2 text-xs hover:bg-white/20 transition"
+              onClick={handleExportSvg}
+            >
+              SVG
+            </button>
+            <button
+              className="flex-1 bg-white/10 text-white border border-white/30 rounded-lg px-2 py-2 text-xs hover:bg-white/20 transition"
+              onClick={handleExportPng}
+            >
+              PNG
+            </button>
+          </div>
         </div>
 
         {/* Instructions */}
@@ -674,7 +2115,71 @@ function BlackHoleComponent() {
             style={{ display: "block" }}
           >
             {/* Grid lines */}
-            {showGrid && (
+            {showGrid && gridMode === 'radial' && (
+              <>
+                {/* Circles of constant r, labelled at their top */}
+                {Array.from({ length: Math.floor(screenRadius / ringStep) }, (_, k) => (k + 1) * ringStep).map((r) => (
+                  <g key={`ring-${r}`}>
+                    <circle cx={screenOrigin.x} cy={screenOrigin.y} r={r * screenScale} fill="none" stroke="rgba(255,255,255,0.2)" strokeWidth="1" />
+                    <text
+                      x={screenOrigin.x}
+                      y={screenOrigin.y - r * screenScale - 3}
+                      fill="rgba(255,255,255,0.7)"
+                      fontSize="10"
+                      textAnchor="middle"
+                      fontFamily="monospace"
+                      style={{ userSelect: "none", pointerEvents: "none" }}
+                    >
+                      {r}
+                    </text>
+                  </g>
+                ))}
+                {/* Proper radial distance from the horizon along the +x axis */}
+                <line
+                  x1={screenOrigin.x}
+                  y1={screenOrigin.y}
+                  x2={screenOrigin.x + screenRadius * screenScale}
+                  y2={screenOrigin.y}
+                  stroke="rgba(34,211,238,0.5)"
+                  strokeWidth="1"
+                />
+                {radialTicks.map((tick) => (
+                  <g key={`proper-${tick.distance}`}>
+                    <line
+                      x1={screenOrigin.x + tick.r * screenScale}
+                      y1={screenOrigin.y - 5}
+                      x2={screenOrigin.x + tick.r * screenScale}
+                      y2={screenOrigin.y + 5}
+                      stroke="#22d3ee"
+                      strokeWidth="1.5"
+                    />
+                    <text
+                      x={screenOrigin.x + tick.r * screenScale}
+                      y={screenOrigin.y + 16}
+                      fill="#22d3ee"
+                      fontSize="10"
+                      textAnchor="middle"
+                      fontFamily="monospace"
+                      style={{ userSelect: "none", pointerEvents: "none" }}
+                    >
+                      {tick.distance}
+                    </text>
+                  </g>
+                ))}
+                <text
+                  x={playgroundWidth - 10}
+                  y={playgroundHeight - 10}
+                  fill="#22d3ee"
+                  fontSize="10"
+                  textAnchor="end"
+                  fontFamily="monospace"
+                  style={{ userSelect: "none", pointerEvents: "none" }}
+                >
+                  {t.properDistance}
+                </text>
+              </>
+            )}
+            {showGrid && gridMode === 'cartesian' && (
               <>
                 <defs>
                   <pattern id="grid" width={gridSpacing} height={gridSpacing} patternUnits="userSpaceOnUse" x={(BH_CENTER.x + panOffset.x) % gridSpacing} y={(BH_CENTER.y + panOffset.y) % gridSpacing}>
@@ -737,6 +2242,30 @@ function BlackHoleComponent() {
               </>
             )}
             
+            {/* Where light gets to from each point in a unit of coordinate time:
+                yellow where some of it can still move outwards, red where it cannot */}
+            {coneField.map((cone) => {
+              const glyph = 0.4 * coneStep * screenScale;
+              const cx = screenOrigin.x + cone.x * screenScale;
+              const cy = screenOrigin.y - cone.y * screenScale;
+              const outward = cone.centre + cone.radial > 1e-9;
+              const rotation = (Math.atan2(-cone.y, cone.x) * 180) / Math.PI;
+              return (
+                <g key={`cone-${cone.x}-${cone.y}`} transform={`translate(${cx} ${cy}) rotate(${rotation})`}>
+                  <ellipse
+                    cx={cone.centre * glyph}
+                    cy={0}
+                    rx={cone.radial * glyph}
+                    ry={cone.tangential * glyph}
+                    fill={outward ? 'rgba(250,204,21,0.15)' : 'rgba(239,68,68,0.2)'}
+                    stroke={outward ? 'rgba(250,204,21,0.6)' : 'rgba(239,68,68,0.7)'}
+                    strokeWidth="1"
+                  />
+                  <circle r={1.5} fill="#fff" />
+                </g>
+              );
+            })}
+
             {stars.map((star, i) => (
               <circle
                 key={i}
@@ -758,20 +2287,111 @@ function BlackHoleComponent() {
             transition: isPanning ? "none" : "transform 0.2s cubic-bezier(.4,2,.6,1)",
           }}
         >
-          <svg width={BH_SIZE} height={BH_SIZE}>
+          <svg width={BH_SIZE} height={BH_SIZE} style={{ overflow: "visible" }}>
             <circle
               cx={BH_SIZE / 2}
               cy={BH_SIZE / 2}
-              r={BH_SIZE * 0.25}
+              r={BH_SIZE * 0.25 * horizonRadius}
               fill="none"
               stroke="#fff"
               strokeWidth={BH_SIZE * 0.006}
               strokeDasharray={`${BH_SIZE * 0.01} ${BH_SIZE * 0.01}`}
               opacity={0.9}
             />
+            {/* Kerr ergosphere */}
+            {showKerrOverlays && (
+              <>
+                <circle
+                  cx={BH_SIZE / 2}
+                  cy={BH_SIZE / 2}
+                  r={BH_SIZE * 0.25 * kerrErgosphereRadius()}
+                  fill="none"
+                  stroke="#fb923c"
+                  strokeWidth={BH_SIZE * 0.004}
+                  strokeDasharray={`${BH_SIZE * 0.004} ${BH_SIZE * 0.008}`}
+                  opacity={0.9}
+                />
+              </>
+            )}
+            {/* Photon orbits: prograde and retrograde ones differ around a Kerr hole */}
+            {gravityEnabled && (showPhotonSphere || showKerrOverlays) && photonOrbitCircles.map((orbit) => (
+              <circle
+                key={`photon-${orbit.radius}`}
+                cx={BH_SIZE / 2}
+                cy={BH_SIZE / 2}
+                r={BH_SIZE * 0.25 * orbit.radius}
+                fill="none"
+                stroke={metric.kind !== 'kerr' ? '#facc15' : orbit.impactParameter > 0 ? '#4ade80' : '#e879f9'}
+                strokeWidth={BH_SIZE * 0.002}
+                opacity={0.7}
+              />
+            ))}
+            {/* Shadow edge: apparent radius b_c seen by a distant observer */}
+            {gravityEnabled && showShadow && shadowRadii.map((radius) => (
+              <circle
+                key={`shadow-${radius}`}
+                cx={BH_SIZE / 2}
+                cy={BH_SIZE / 2}
+                r={BH_SIZE * 0.25 * radius}
+                fill="none"
+                stroke="#94a3b8"
+                strokeWidth={BH_SIZE * 0.003}
+                strokeDasharray={`${BH_SIZE * 0.002} ${BH_SIZE * 0.006}`}
+                opacity={0.8}
+              />
+            ))}
+            {/* Innermost stable circular orbits */}
+            {showIsco && [...new Set([iscoRadii.prograde, iscoRadii.retrograde])].map((radius) => (
+              <circle
+                key={radius}
+                cx={BH_SIZE / 2}
+                cy={BH_SIZE / 2}
+                r={BH_SIZE * 0.25 * radius}
+                fill="none"
+                stroke="#fdba74"
+                strokeWidth={BH_SIZE * 0.002}
+                strokeDasharray={`${BH_SIZE * 0.02} ${BH_SIZE * 0.01}`}
+                opacity={0.6}
+              />
+            ))}
+            {/* Accretion disk seen face-on, from its inner edge outwards */}
+            {disk && (
+              <circle
+                cx={BH_SIZE / 2}
+                cy={BH_SIZE / 2}
+                r={BH_SIZE * 0.25 * (diskInnerRadius + disk.outerRadius) / 2}
+                fill="none"
+                stroke="#f97316"
+                strokeWidth={BH_SIZE * 0.25 * (disk.outerRadius - diskInnerRadius)}
+                opacity={0.12}
+              />
+            )}
+            {/* Reissner–Nordström inner horizon */}
+            {innerHorizonRadius !== null && (
+              <circle
+                cx={BH_SIZE / 2}
+                cy={BH_SIZE / 2}
+                r={BH_SIZE * 0.25 * innerHorizonRadius}
+                fill="none"
+                stroke="#fff"
+                strokeWidth={BH_SIZE * 0.003}
+                strokeDasharray={`${BH_SIZE * 0.004} ${BH_SIZE * 0.008}`}
+                opacity={0.6}
+              />
+            )}
           </svg>
         </div>
 
+        {/* Light rays and particle paths */}
+        <TrajectoryCanvas
+          width={playgroundWidth}
+          height={playgroundHeight}
+          origin={{ x: BH_CENTER.x + panOffset.x, y: BH_CENTER.y + panOffset.y }}
+          scale={rs * zoom}
+          rays={trajectoryStrokes}
+          clock={showAnimation ? clockTime : null}
+        />
+
         {/* Placed lasers */}
         <div
           className="absolute left-1/2 top-1/2 z-20"
@@ -782,25 +2402,17 @@ function BlackHoleComponent() {
           }}
         >
           {lasers.map((laser) => {
-            // Calculate the distance to the screen edge
-            const _distance = calculateDistanceToEdge(
-              laser.x + size.width / 2,
-              laser.y + size.height / 2,
-              laser.angle,
-              size.width,
-              size.height
-            );
-            
-            // Calculate distance in Schwarzschild radius units
-            const _distanceInRs = calculateDistanceInRs(laser.x, laser.y, BH_SIZE);
-            
+            // Handle position in unzoomed pixels, y down
+            const left = laser.x * rs;
+            const top = -laser.y * rs;
+
             return (
               <div
                 key={laser.id}
                 className="absolute"
                 style={{
-                  left: laser.x,
-                  top: laser.y,
+                  left,
+                  top,
                   transform: "translate(-50%, -50%)",
                   cursor: "pointer",
                   pointerEvents: "auto",
@@ -818,12 +2430,23 @@ function BlackHoleComponent() {
                 }}
               >
                 <div
-                  className="w-6 h-3 bg-cyan-500"
+                  className={`${laser.pattern === 'point' ? 'w-4 h-4 rounded-full' : 'w-6 h-3'} ${laser.kind === 'particle' ? 'bg-orange-500 rounded-r-full' : 'bg-cyan-500'}`}
                   style={{
                     transform: `rotate(${laser.angle}deg)`,
                     pointerEvents: "auto",
                   }}
                 />
+                {/* Extent of a parallel beam, across its direction */}
+                {laser.pattern === 'beam' && (
+                  <div
+                    className={`absolute top-1/2 left-1/2 w-0.5 ${laser.kind === 'particle' ? 'bg-orange-500/60' : 'bg-cyan-500/60'}`}
+                    style={{
+                      height: laser.beamWidth * rs,
+                      transform: `translate(-50%, -50%) rotate(${laser.angle}deg)`,
+                      pointerEvents: "none",
+                    }}
+                  />
+                )}
                 {/* Highlight marks for laser being edited */}
                 {editingLaserId === laser.id && (
                   <>
@@ -836,76 +2459,340 @@ function BlackHoleComponent() {
                     <div className="absolute -inset-2 border border-yellow-400 rounded animate-pulse"></div>
                   </>
                 )}
-                {laser.fired && (
-                  <div
-                    className="absolute top-1/2 left-1/2"
-                    style={{
-                      transform: `translate(-50%, -50%)`,
-                      transformOrigin: 'center center',
-                      pointerEvents: "none",
-                    }}
-                  >
-                    {calculateLightPath(
-                      laser.x + size.width / 2,
-                      laser.y + size.height / 2,
-                      laser.angle,
-                      size.width,
-                      size.height,
-                      BH_SIZE,
-                      zoom,
-                      gravityEnabled
-                    ).map((point, index, array) => {
-                      const nextPoint = array[index + 1];
-                      
-                      return (
-                        <div key={index}>
-                          {/* Draw line to next point if it exists */}
-                          {nextPoint && (
-                            <div
-                              className="absolute bg-red-500"
-                              style={{
-                                left: `${point.x - (laser.x + size.width / 2)}px`,
-                                top: `${point.y - (laser.y + size.height / 2)}px`,
-                                width: `${Math.hypot(
-                                  nextPoint.x - point.x,
-                                  nextPoint.y - point.y
-                                )}px`,
-                                height: '1px',
-                                transformOrigin: '0 0',
-                                transform: `rotate(${Math.atan2(
-                                  nextPoint.y - point.y,
-                                  nextPoint.x - point.x
-                                )}rad)`,
-                              }}
-                            />
-                          )}
-                          {/* Draw point */}
-                          <div
-                            className="absolute w-0.5 h-0.5 bg-red-500 rounded-full"
-                            style={{
-                              left: `${point.x - (laser.x + size.width / 2)}px`,
-                              top: `${point.y - (laser.y + size.height / 2)}px`,
-                              transform: 'translate(-50%, -50%)',
-                            }}
-                          />
-                        </div>
-                      );
-                    })}
-                  </div>
+              </div>
+            );
+          })}
+          {/* Mirrors and detectors: drag to move, right-drag to turn, double-click to remove */}
+          {optics.map((element) => {
+            const extent = (element.kind === 'circular-mirror' ? 2 : 1) * element.size * rs;
+            const color = element.kind === 'detector' ? '#4ade80' : '#cbd5e1';
+            const handlers = {
+              onClick: (e: React.MouseEvent) => {
+                e.stopPropagation();
+                if (connect && connect.target === null && element.kind === 'detector') {
+                  setConnect({ ...connect, target: { detector: element.id } });
+                }
+              },
+              onDoubleClick: (e: React.MouseEvent) => {
+                e.stopPropagation();
+                recordHistory();
+                setOptics((prev) => prev.filter((other) => other.id !== element.id));
+              },
+              onMouseDown: (e: React.MouseEvent) => {
+                e.stopPropagation();
+                gestureCount.current += 1;
+                if (e.button === 0) {
+                  setOpticsGesture({ id: element.id, mode: 'drag' });
+                } else if (e.button === 2) {
+                  e.preventDefault();
+                  setOpticsGesture({ id: element.id, mode: 'rotate' });
+                  setLastMouseX(e.clientX);
+                }
+              },
+              style: { pointerEvents: 'stroke' as const, cursor: 'move' },
+            };
+            return (
+              <svg
+                key={`optic-${element.id}`}
+                className="absolute"
+                width={extent}
+                height={extent}
+                style={{
+                  left: element.x * rs - extent / 2,
+                  top: -element.y * rs - extent / 2,
+                  transform: `rotate(${-element.angle}deg)`,
+                  overflow: "visible",
+                  pointerEvents: "none",
+                }}
+              >
+                {element.kind === 'circular-mirror' ? (
+                  <>
+                    <circle cx={extent / 2} cy={extent / 2} r={extent / 2} fill="none" stroke="transparent" strokeWidth={10} {...handlers} />
+                    <circle cx={extent / 2} cy={extent / 2} r={extent / 2} fill="none" stroke={color} strokeWidth={3} />
+                  </>
+                ) : (
+                  <>
+                    <line x1={0} y1={extent / 2} x2={extent} y2={extent / 2} stroke="transparent" strokeWidth={10} {...handlers} />
+                    <line
+                      x1={0}
+                      y1={extent / 2}
+                      x2={extent}
+                      y2={extent / 2}
+                      stroke={color}
+                      strokeWidth={3}
+                      strokeDasharray={element.kind === 'detector' ? '6 2' : undefined}
+                    />
+                  </>
                 )}
+                <text x={extent / 2 + 4} y={extent / 2 - 6} fill={color} fontSize="10" fontFamily="monospace">
+                  #{element.id}
+                </text>
+              </svg>
+            );
+          })}
+          {/* Target of the connect tool, and the name of each image halfway along it */}
+          {connectTarget && (
+            <div
+              className="absolute"
+              style={{
+                left: connectTarget.x * rs,
+                top: -connectTarget.y * rs,
+                transform: "translate(-50%, -50%)",
+                pointerEvents: "none",
+              }}
+            >
+              <svg width={20} height={20}>
+                <path d="M 10 0 V 20 M 0 10 H 20" stroke="#22d3ee" strokeWidth={1.5} />
+                <circle cx={10} cy={10} r={5} fill="none" stroke="#22d3ee" strokeWidth={1.5} />
+              </svg>
+            </div>
+          )}
+          {(connectRays ?? []).map((ray, i) => {
+            const middle = ray.trajectory.points[Math.floor(ray.trajectory.points.length / 2)];
+            return (
+              <div
+                key={`image-${ray.angle}`}
+                className="absolute text-xs font-mono whitespace-nowrap"
+                style={{
+                  left: middle.x * rs + 4,
+                  top: -middle.y * rs - 14,
+                  color: IMAGE_COLORS[i % IMAGE_COLORS.length],
+                  pointerEvents: "none",
+                }}
+              >
+                {imageLabel(ray, t.connect)}
               </div>
             );
           })}
+          {/* Emitter and receiver of the radar experiment */}
+          {radar && Object.entries(radarEndpoints(radar)).map(([role, point]) => (
+            <div
+              key={`radar-${role}`}
+              className="absolute"
+              style={{
+                left: point.x * rs,
+                top: -point.y * rs,
+                transform: "translate(-50%, -50%)",
+                pointerEvents: "none",
+              }}
+            >
+              <svg width={20} height={20} style={{ overflow: "visible" }}>
+                <rect x={4} y={4} width={12} height={12} fill="#0e7490" stroke="#22d3ee" strokeWidth={2} transform="rotate(45 10 10)" />
+                <text x={20} y={8} fill="#22d3ee" fontSize="10" fontFamily="monospace">
+                  {role === 'emitter' ? 'A' : 'B'}
+                </text>
+              </svg>
+            </div>
+          ))}
+          {/* Observer: drag to move, right-drag to turn */}
+          {observer && (
+            <div
+              className="absolute"
+              style={{
+                left: observer.x * rs,
+                top: -observer.y * rs,
+                transform: "translate(-50%, -50%)",
+                cursor: "move",
+                pointerEvents: "auto",
+              }}
+              onClick={(e) => e.stopPropagation()}
+              onMouseDown={(e) => {
+                e.stopPropagation();
+                gestureCount.current += 1;
+                if (e.button === 0) {
+                  setObserverGesture('drag');
+                } else if (e.button === 2) {
+                  e.preventDefault();
+                  setObserverGesture('rotate');
+                  setLastMouseX(e.clientX);
+                }
+              }}
+            >
+              <svg width={28} height={28} style={{ transform: `rotate(${(-observer.angle * 180) / Math.PI}deg)`, overflow: "visible" }}>
+                {/* Field of view */}
+                <path
+                  d={`M 14 14 L ${14 + 40 * Math.cos(observer.fov / 2)} ${14 - 40 * Math.sin(observer.fov / 2)} M 14 14 L ${14 + 40 * Math.cos(observer.fov / 2)} ${14 + 40 * Math.sin(observer.fov / 2)}`}
+                  stroke="rgba(255,255,255,0.5)"
+                  strokeDasharray="3 3"
+                />
+                <circle cx={14} cy={14} r={8} fill="#1e293b" stroke="#fff" strokeWidth={2} />
+                <circle cx={18} cy={14} r={3} fill="#fff" />
+              </svg>
+            </div>
+          )}
         </div>
 
+        {/* Mirror and detector settings, and the detector records */}
+        {optics.length > 0 && (
+          <OpticsPanel
+            elements={optics}
+            hits={hits}
+            onEditStart={beginHistoryStep}
+            onChange={(id, patch) => {
+              recordHistory(`optics-edit-${id}-${Object.keys(patch).join()}`);
+              setOptics((prev) => prev.map((element) => (element.id === id ? { ...element, ...patch } : element)));
+            }}
+            onRemove={(id) => {
+              recordHistory();
+              setOptics((prev) => prev.filter((element) => element.id !== id));
+            }}
+            labels={t.optics}
+          />
+        )}
+
+        {/* Lensed view of the observer */}
+        {observer && (
+          <CameraPanel
+            observer={observer}
+            metric={activeMetric}
+            mode={cameraMode}
+            onModeChange={setCameraMode}
+            onFovStart={beginHistoryStep}
+            onFovChange={(fov) => {
+              recordHistory('observer-fov');
+              setObserver((prev) => prev && { ...prev, fov });
+            }}
+            onError={reportComputeError}
+            labels={t.camera}
+          />
+        )}
+
+        {/* Image of the accretion disk */}
+        {disk && (
+          <DiskPanel
+            disk={disk}
+            metric={activeMetric}
+            onChange={setDisk}
+            onError={reportComputeError}
+            labels={t.disk}
+          />
+        )}
+
+        {/* Rays of a laser through a target */}
+        {connect && connectLaser && (
+          <ConnectPanel
+            settings={connect}
+            rays={connectRays}
+            onChange={setConnect}
+            onAim={(ray) => aimLaser(connect.laserId, ray.angle)}
+            onClose={() => setConnect(null)}
+            labels={t.connect}
+          />
+        )}
+
+        {/* Equatorial plane as a curved surface, with the paths on it */}
+        {showEmbedding && (
+          <EmbeddingPanel
+            metric={activeMetric}
+            paths={embeddingPaths}
+            labels={t.embedding}
+          />
+        )}
+
+        {/* Radar echo experiment */}
+        {radar && (
+          <RadarPanel
+            settings={radar}
+            metric={activeMetric}
+            rays={radarRays}
+            echoes={radarEchoes}
+            onChange={setRadar}
+            onError={reportComputeError}
+            labels={t.radar}
+          />
+        )}
+
+        {/* Animation timeline */}
+        {showAnimation && (
+          <div
+            className="absolute bottom-4 left-4 z-40 bg-black/90 p-3 rounded-lg border border-white/20 backdrop-blur-sm w-[360px] space-y-2"
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPlaying(!playing)}
+                className="bg-white/10 text-white border border-white/30 rounded px-3 py-1 text-xs hover:bg-white/20 transition"
+              >
+                {playing ? t.pause : t.play}
+              </button>
+              <select
+                value={animationClock}
+                onChange={(e) => {
+                  setAnimationClock(e.target.value as AnimationClock);
+                  setClockTime(0);
+                }}
+                className="flex-1 bg-white/10 text-white text-xs px-2 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+              >
+                {(['coordinate', 'infalling'] as const).map((clock) => (
+                  <option key={clock} value={clock} className="bg-black">
+                    {t.clocks[clock]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={animationDuration}
+              step={animationDuration / 1000}
+              value={Math.min(clockTime, animationDuration)}
+              onChange={(e) => {
+                setPlaying(false);
+                setClockTime(parseFloat(e.target.value));
+              }}
+              className="w-full accent-red-500"
+            />
+            <div className="text-white/60 text-xs font-mono">
+              {animationClock === 'coordinate' ? 't' : 'τ'} = {clockTime.toFixed(2)} / {animationDuration.toFixed(1)} Rs/c
+            </div>
+          </div>
+        )}
+
+        {/* Deflection-angle analysis */}
+        {showDeflectionPanel && (
+          <DeflectionPanel
+            samples={deflectionSamples}
+            showExact={metric.kind === 'schwarzschild' || (metric.kind === 'kerr' && metric.spin === 0)}
+            labels={t.deflection}
+          />
+        )}
+
+        {/* Potential well and orbit of the single ray being edited */}
+        {editingLaserId !== null && (() => {
+          const laser = lasers.find(l => l.id === editingLaserId);
+          const trajectory = laser?.pattern === 'ray' ? lightPaths.get(rayKey(laser.id, 0)) : undefined;
+          if (!laser || !trajectory || trajectory.points.length < 2) return null;
+          return (
+            <OrbitPanel
+              trajectory={trajectory}
+              metric={activeMetric}
+              kind={laser.kind}
+              labels={t.orbit}
+            />
+          );
+        })()}
+
         {/* Edit dialog - fixed at top-right corner */}
         {editingLaserId !== null && (() => {
           const laser = lasers.find(l => l.id === editingLaserId);
           if (!laser) return null;
           
-          const rs = BH_SIZE * 0.25;
-          const xInRs = laser.x / rs;
-          const yInRs = -laser.y / rs; // Negate Y to match physics convention (positive up)
+          const xInRs = laser.x;
+          const yInRs = laser.y;
+          // Single rays get full diagnostics, multi-ray emitters a tally of fates
+          const trajectory = laser.pattern === 'ray' ? lightPaths.get(rayKey(laser.id, 0)) : undefined;
+          const rayTrajectories = laser.pattern === 'ray'
+            ? []
+            : emitterRays(laser).flatMap((_, i) => lightPaths.get(rayKey(laser.id, i)) ?? []);
+          const critical = laser.kind === 'laser' && trajectory
+            ? createMetric(activeMetric).photonOrbits.find(
+                (orbit) => Math.sign(orbit.impactParameter) === (trajectory.impactParameter < 0 ? -1 : 1)
+              )
+            : undefined;
+          const particleEscapeSpeed = laser.kind === 'particle' && laser.pattern === 'ray'
+            ? escapeSpeed({ x: xInRs, y: yInRs, angle: (-laser.angle * Math.PI) / 180 }, activeMetric)
+            : null;
           
           return (
             <div
@@ -920,7 +2807,7 @@ function BlackHoleComponent() {
                 <div className="space-y-3">
                   <div className="flex items-center justify-between mb-2">
                     <div className="text-white/80 text-sm font-medium">
-                      {t.laserNumber}{laser.id}
+                      {laser.kind === 'particle' ? t.particleNumber : t.laserNumber}{laser.id}
                     </div>
                     <button
                       onClick={handleCloseLaserEdit}
@@ -965,6 +2852,150 @@ function BlackHoleComponent() {
                     />
                     <span className="text-white/60 text-xs">°</span>
                   </div>
+                  {laser.kind === 'particle' && (
+                    <div className="flex items-center space-x-2">
+                      <span className="text-white/80 text-sm w-12">{t.speed}</span>
+                      <input
+                        type="number"
+                        value={tempInputValues.speed}
+                        onChange={(e) => handleLaserEdit('speed', e.target.value)}
+                        className="w-24 bg-white/10 text-white text-sm px-3 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+                        step="0.01"
+                        min="0"
+                        max="0.999"
+                      />
+                      <span className="text-white/60 text-xs">c</span>
+                    </div>
+                  )}
+                  {laser.pattern !== 'ray' && (
+                    <div className="flex items-center space-x-2">
+                      <span className="text-white/80 text-sm w-12">{t.rayCount}</span>
+                      <input
+                        type="number"
+                        value={tempInputValues.count}
+                        onChange={(e) => handleLaserEdit('count', e.target.value)}
+                        className="w-24 bg-white/10 text-white text-sm px-3 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+                        step="1"
+                        min="2"
+                        max={MAX_RAY_COUNT}
+                      />
+                    </div>
+                  )}
+                  {laser.pattern === 'beam' && (
+                    <div className="flex items-center space-x-2">
+                      <span className="text-white/80 text-sm w-12">{t.beamWidth}</span>
+                      <input
+                        type="number"
+                        value={tempInputValues.beamWidth}
+                        onChange={(e) => handleLaserEdit('beamWidth', e.target.value)}
+                        className="w-24 bg-white/10 text-white text-sm px-3 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+                        step="0.1"
+                        min="0"
+                      />
+                      <span className="text-white/60 text-xs">Rs</span>
+                    </div>
+                  )}
+                  {laser.pattern === 'fan' && (
+                    <div className="flex items-center space-x-2">
+                      <span className="text-white/80 text-sm w-12">{t.aperture}</span>
+                      <input
+                        type="number"
+                        value={tempInputValues.aperture}
+                        onChange={(e) => handleLaserEdit('aperture', e.target.value)}
+                        className="w-24 bg-white/10 text-white text-sm px-3 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+                        step="1"
+                        min="0"
+                        max="360"
+                      />
+                      <span className="text-white/60 text-xs">°</span>
+                    </div>
+                  )}
+                  {rayTrajectories.length > 0 && (
+                    <div className="pt-2 border-t border-white/10 text-xs font-mono space-y-1">
+                      <div className="text-white/60">
+                        {t.patterns[laser.pattern]}: {rayTrajectories.length} × {t.emitters[laser.kind]}
+                      </div>
+                      <div className="text-white/60">
+                        {rayTrajectories.filter((ray) => ray.termination === 'escaped').length} {t.raysEscaped},{' '}
+                        {rayTrajectories.filter((ray) => ray.termination === 'captured').length} {t.raysCaptured}
+                      </div>
+                      {rayTrajectories.some((ray) => ray.constraintDrift > DRIFT_WARNING) && (
+                        <div className="text-red-400">
+                          {t.constraintDrift}: {t.unreliable}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {trajectory && (
+                    <div className="pt-2 border-t border-white/10 text-xs font-mono space-y-1">
+                      <div className="text-white/60">
+                        {t.fate}: {t.fates[trajectory.termination]}
+                      </div>
+                      {critical && (
+                        <>
+                          <div className="text-white/60">
+                            {t.impactParameter}: {trajectory.impactParameter.toFixed(4)} Rs
+                          </div>
+                          <div className="text-white/60">
+                            {t.criticalImpactParameter}: {critical.impactParameter.toFixed(4)} Rs
+                          </div>
+                          <div className={Math.abs(trajectory.impactParameter) < Math.abs(critical.impactParameter) ? 'text-red-400' : 'text-green-400'}>
+                            {Math.abs(trajectory.impactParameter) < Math.abs(critical.impactParameter) ? t.belowCritical : t.aboveCritical}
+                          </div>
+                          <button
+                            onClick={() => handleSnapToCritical(laser.id)}
+                            className="w-full mt-1 bg-white/10 text-white border border-white/30 rounded px-2 py-1 text-xs hover:bg-white/20 transition font-sans"
+                          >
+                            {t.snapToCritical}
+                          </button>
+                        </>
+                      )}
+                      {laser.kind === 'particle' && (
+                        <>
+                          <div className="text-white/60">
+                            {t.energyPerMass}: {trajectory.energy.toFixed(4)}
+                          </div>
+                          <div className="text-white/60">
+                            {t.angularMomentumPerMass}: {trajectory.angularMomentum.toFixed(4)} Rs·c
+                          </div>
+                          <div className="text-white/60">
+                            {t.properTime}: {(trajectory.properTime ?? 0).toFixed(2)} Rs/c
+                          </div>
+                          {particleEscapeSpeed !== null && (
+                            <div className="text-white/60">
+                              {t.escapeSpeed}: {particleEscapeSpeed.toFixed(3)} c
+                            </div>
+                          )}
+                        </>
+                      )}
+                      <div className={trajectory.constraintDrift > DRIFT_WARNING ? 'text-red-400' : 'text-white/60'}>
+                        {t.constraintDrift}: {trajectory.constraintDrift.toExponential(1)}
+                        {trajectory.constraintDrift > DRIFT_WARNING && ` (${t.unreliable})`}
+                      </div>
+                    </div>
+                  )}
+                  {laser.kind === 'laser' && (
+                    <button
+                      onClick={() => setConnect({ laserId: laser.id, target: null, maxWinding: 1 })}
+                      className="w-full bg-white/10 text-white border border-white/30 rounded px-2 py-1 text-xs hover:bg-white/20 transition"
+                    >
+                      {t.connect.start}
+                    </button>
+                  )}
+                  {(trajectory || rayTrajectories.length > 0) && (
+                    <div className="flex items-center gap-2 pt-2 border-t border-white/10">
+                      <span className="text-white/60 text-xs flex-1">{t.data}</span>
+                      {(['csv', 'json'] as const).map((format) => (
+                        <button
+                          key={format}
+                          onClick={() => handleExportData(format, laser.id)}
+                          className="bg-white/10 text-white border border-white/30 rounded px-2 py-1 text-xs hover:bg-white/20 transition"
+                        >
+                          {format.toUpperCase()}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -984,7 +3015,7 @@ function BlackHoleComponent() {
             <circle
               cx={BH_SIZE / 2}
               cy={BH_SIZE / 2}
-              r={BH_SIZE * 0.25}
+              r={BH_SIZE * 0.25 * horizonRadius}
               fill="black"
               filter="url(#blur)"
             />
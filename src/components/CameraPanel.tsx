@@ -0,0 +1,119 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { MetricParams } from '@/physics';
+import { getTrajectoryPool, unlessSuperseded } from '@/trajectories';
+import { lensingRequests, lensingTable, renderLensedSky, type LensingTable, type Observer } from '@/lensing';
+
+export type CameraMode = 'strip' | 'image';
+
+type CameraPanelProps = {
+  observer: Observer;
+  metric: MetricParams;
+  mode: CameraMode;
+  onModeChange: (mode: CameraMode) => void;
+  onFovStart: () => void; // a new drag or key press on the slider
+  onFovChange: (fov: number) => void;
+  onError: (error: Error) => void; // the rays could not be traced
+  labels: {
+    title: string;
+    modes: Record<CameraMode, string>;
+    fieldOfView: string;
+    tracing: string;
+  };
+};
+
+// Resolution of the rendered images
+const IMAGE_SIZE = { width: 240, height: 180 };
+const STRIP_SIZE = { width: 480, height: 1 };
+
+/**
+ * What the observer sees: the star field lensed by the hole, rendered on
+ * the CPU by backward ray tracing.  The equatorial strip is a 1D image of
+ * the plane of the simulation; the full image covers the field of view.
+ */
+export default function CameraPanel({ observer, metric, mode, onModeChange, onFovStart, onFovChange, onError, labels }: CameraPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [table, setTable] = useState<LensingTable | null>(null);
+  const [tracing, setTracing] = useState(false);
+
+  const radius = Math.hypot(observer.x, observer.y);
+  const requests = useMemo(() => lensingRequests(radius, metric), [radius, metric]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTracing(true);
+    const pool = getTrajectoryPool();
+    pool.computeAll(requests, 'camera').then(
+      (trajectories) => {
+        if (cancelled) return;
+        setTable(lensingTable(requests, trajectories));
+        setTracing(false);
+      },
+      unlessSuperseded((error) => {
+        if (cancelled) return;
+        setTracing(false);
+        onError(error);
+      })
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [requests, onError]);
+
+  const { width, height } = mode === 'image' ? IMAGE_SIZE : STRIP_SIZE;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !table) return;
+    canvas.width = width;
+    canvas.height = height;
+    const image = ctx.createImageData(width, height);
+    image.data.set(renderLensedSky(table, observer, width, height));
+    ctx.putImageData(image, 0, 0);
+  }, [table, observer, width, height]);
+
+  return (
+    <div
+      className="absolute top-4 left-4 z-40 bg-black/90 p-3 rounded-lg border border-white/20 backdrop-blur-sm space-y-2"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-white/80 text-sm font-medium">{labels.title}</span>
+        <select
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as CameraMode)}
+          className="bg-white/10 text-white text-xs px-2 py-1 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+        >
+          {(['strip', 'image'] as const).map((option) => (
+            <option key={option} value={option} className="bg-black">
+              {labels.modes[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <canvas
+        ref={canvasRef}
+        className="block bg-black"
+        style={{ width: IMAGE_SIZE.width, height: mode === 'image' ? IMAGE_SIZE.height : 40 }}
+      />
+      <div className="flex items-center justify-between">
+        <span className="text-white/60 text-xs">{labels.fieldOfView}</span>
+        <span className="text-white/60 text-xs font-mono">
+          {((observer.fov * 180) / Math.PI).toFixed(0)}°{tracing && ` · ${labels.tracing}`}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={10}
+        max={160}
+        step={1}
+        value={(observer.fov * 180) / Math.PI}
+        onPointerDown={onFovStart}
+        onKeyDown={onFovStart}
+        onChange={(e) => onFovChange((parseFloat(e.target.value) * Math.PI) / 180)}
+        className="w-full accent-red-500"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import React from "react";
+import type { ConnectingRay } from '@/physics';
+
+// Point (r_s units, y up) or detector the rays of a laser are aimed at
+export type ConnectTarget = { x: number; y: number } | { detector: number };
+
+export type ConnectSettings = {
+  laserId: number;
+  target: ConnectTarget | null; // null while the user picks it
+  maxWinding: number;
+};
+
+type ImageLabels = { direct: string; otherSide: string; loop: string };
+
+type ConnectPanelProps = {
+  settings: ConnectSettings;
+  rays: ConnectingRay[] | null; // null while searching
+  onChange: (settings: ConnectSettings) => void;
+  onAim: (ray: ConnectingRay) => void;
+  onClose: () => void;
+  labels: ImageLabels & {
+    title: string;
+    pick: string;
+    repick: string;
+    maxWinding: string;
+    searching: string;
+    none: string;
+    launchAngle: string;
+    arrival: string;
+    aim: string;
+    close: string;
+  };
+};
+
+// Colours of the images, in order of arrival
+export const IMAGE_COLORS = ['#22d3ee', '#a78bfa', '#f472b6', '#facc15', '#4ade80', '#fb923c'];
+
+// Windings offered: beyond a few the images crowd onto the photon orbit
+const MAX_WINDINGS = [0, 1, 2, 3];
+
+/**
+ * Name of an image: the direct ray goes the short way round, the one
+ * around the other side the long way, and the others loop around the
+ * hole; the arrow gives the sense.
+ */
+export const imageLabel = (ray: ConnectingRay, labels: ImageLabels): string => {
+  const arrow = ray.sweep > 0 ? '↺' : '↻';
+  if (ray.winding > 0) return `${labels.loop} ${ray.winding} ${arrow}`;
+  return `${Math.abs(ray.sweep) <= Math.PI ? labels.direct : labels.otherSide} ${arrow}`;
+};
+
+/**
+ * Every ray of a laser through a chosen target, found by shooting on the
+ * launch angle: the images of the laser seen from the target.  Each can
+ * be taken over as the laser's direction.  Mirrors are not taken into
+ * account.
+ */
+export default function ConnectPanel({ settings, rays, onChange, onAim, onClose, labels }: ConnectPanelProps) {
+  return (
+    <div
+      className="absolute top-1/2 left-4 -translate-y-1/2 z-40 bg-black/90 p-3 rounded-lg border border-white/20 backdrop-blur-sm space-y-2 min-w-[260px]"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-white/80 text-sm font-medium">{labels.title} #{settings.laserId}</span>
+        <button
+          onClick={onClose}
+          className="text-white/60 hover:text-white/90 text-lg leading-none"
+          title={labels.close}
+        >
+          ×
+        </button>
+      </div>
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-white/60">{labels.maxWinding}</span>
+        <select
+          value={settings.maxWinding}
+          onChange={(e) => onChange({ ...settings, maxWinding: parseInt(e.target.value) })}
+          className="bg-white/10 text-white text-xs px-2 py-0.5 rounded border border-white/20 focus:border-blue-400 focus:outline-none"
+        >
+          {MAX_WINDINGS.map((winding) => (
+            <option key={winding} value={winding} className="bg-black">
+              {winding}
+            </option>
+          ))}
+        </select>
+      </div>
+      {settings.target === null ? (
+        <div className="text-cyan-300 text-xs">{labels.pick}</div>
+      ) : (
+        <>
+          <button
+            onClick={() => onChange({ ...settings, target: null })}
+            className="w-full bg-white/10 text-white border border-white/30 rounded px-2 py-1 text-xs hover:bg-white/20 transition"
+          >
+            {labels.repick}
+          </button>
+          {rays === null ? (
+            <div className="text-white/50 text-xs">{labels.searching}</div>
+          ) : rays.length === 0 ? (
+            <div className="text-white/50 text-xs">{labels.none}</div>
+          ) : (
+            <table className="text-xs font-mono text-white/70 w-full">
+              <thead>
+                <tr className="text-white/50">
+                  <th className="text-left font-normal" />
+                  <th className="text-right font-normal">{labels.launchAngle}</th>
+                  <th className="text-right font-normal">{labels.arrival}</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {rays.map((ray, i) => (
+                  <tr key={ray.angle}>
+                    <td className="pr-2" style={{ color: IMAGE_COLORS[i % IMAGE_COLORS.length] }}>
+                      {imageLabel(ray, labels)}
+                    </td>
+                    <td className="text-right pr-2">{((ray.angle * 180) / Math.PI).toFixed(3)}°</td>
+                    <td className="text-right pr-2">{ray.arrival.t.toFixed(2)}</td>
+                    <td className="text-right">
+                      <button
+                        onClick={() => onAim(ray)}
+                        className="bg-white/10 text-white border border-white/30 rounded px-1.5 text-xs hover:bg-white/20 transition font-sans"
+                      >
+                        {labels.aim}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
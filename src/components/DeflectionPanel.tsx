@@ -0,0 +1,125 @@
+import React, { useMemo } from "react";
+import { exactSchwarzschildDeflection, weakFieldDeflection } from '@/physics';
+
+// Deflection measured on the ray of one laser
+export type DeflectionSample = {
+  id: string; // laser id, followed by the ray index for multi-ray emitters
+  impactParameter: number; // |b| in Rs units
+  deflection: number; // radians
+};
+
+type DeflectionPanelProps = {
+  samples: DeflectionSample[];
+  showExact: boolean; // the exact curve only holds for Schwarzschild
+  labels: {
+    title: string;
+    measured: string;
+    weakField: string;
+    exact: string;
+    noSamples: string;
+  };
+};
+
+// Plot area and log-log ranges
+const WIDTH = 320;
+const HEIGHT = 220;
+const MARGIN = { left: 40, right: 10, top: 10, bottom: 30 };
+const B_RANGE: [number, number] = [1, 100];
+const ALPHA_RANGE: [number, number] = [0.01, 10];
+
+const toX = (b: number) =>
+  MARGIN.left + ((Math.log10(b) - Math.log10(B_RANGE[0])) /
+    (Math.log10(B_RANGE[1]) - Math.log10(B_RANGE[0]))) * (WIDTH - MARGIN.left - MARGIN.right);
+
+const toY = (alpha: number) =>
+  HEIGHT - MARGIN.bottom - ((Math.log10(alpha) - Math.log10(ALPHA_RANGE[0])) /
+    (Math.log10(ALPHA_RANGE[1]) - Math.log10(ALPHA_RANGE[0]))) * (HEIGHT - MARGIN.top - MARGIN.bottom);
+
+// Polyline through the curve α(b), sampled evenly in log b
+const curvePath = (alpha: (b: number) => number | null): string => {
+  const segments: string[] = [];
+  let pen = 'M';
+  for (let i = 0; i <= 200; i++) {
+    const b = B_RANGE[0] * (B_RANGE[1] / B_RANGE[0]) ** (i / 200);
+    const value = alpha(b);
+    if (value === null || value < ALPHA_RANGE[0] || value > ALPHA_RANGE[1]) {
+      pen = 'M';
+      continue;
+    }
+    segments.push(`${pen} ${toX(b).toFixed(1)} ${toY(value).toFixed(1)}`);
+    pen = 'L';
+  }
+  return segments.join(' ');
+};
+
+/**
+ * Log-log plot of the deflection angle of escaped rays against their
+ * impact parameter, compared with the weak-field formula 2 r_s / b and
+ * the exact Schwarzschild result.
+ */
+export default function DeflectionPanel({ samples, showExact, labels }: DeflectionPanelProps) {
+  const weakPath = useMemo(() => curvePath((b) => weakFieldDeflection(b)), []);
+  const exactPath = useMemo(() => curvePath((b) => exactSchwarzschildDeflection(b)), []);
+
+  return (
+    <div
+      className="absolute bottom-4 right-4 z-40 bg-black/90 p-3 rounded-lg border border-white/20 backdrop-blur-sm"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="text-white/80 text-sm font-medium mb-1">{labels.title}</div>
+      <svg width={WIDTH} height={HEIGHT}>
+        {/* Decade grid and tick labels */}
+        {[1, 10, 100].map((b) => (
+          <g key={`b-${b}`}>
+            <line x1={toX(b)} y1={MARGIN.top} x2={toX(b)} y2={HEIGHT - MARGIN.bottom} stroke="rgba(255,255,255,0.15)" />
+            <text x={toX(b)} y={HEIGHT - MARGIN.bottom + 12} fill="rgba(255,255,255,0.7)" fontSize="10" textAnchor="middle" fontFamily="monospace">
+              {b}
+            </text>
+          </g>
+        ))}
+        {[0.01, 0.1, 1, 10].map((alpha) => (
+          <g key={`a-${alpha}`}>
+            <line x1={MARGIN.left} y1={toY(alpha)} x2={WIDTH - MARGIN.right} y2={toY(alpha)} stroke="rgba(255,255,255,0.15)" />
+            <text x={MARGIN.left - 4} y={toY(alpha) + 3} fill="rgba(255,255,255,0.7)" fontSize="10" textAnchor="end" fontFamily="monospace">
+              {alpha}
+            </text>
+          </g>
+        ))}
+        <text x={(WIDTH + MARGIN.left) / 2} y={HEIGHT - 4} fill="rgba(255,255,255,0.7)" fontSize="10" textAnchor="middle" fontFamily="monospace">
+          b (Rs)
+        </text>
+        <text x={10} y={(HEIGHT - MARGIN.bottom) / 2} fill="rgba(255,255,255,0.7)" fontSize="10" textAnchor="middle" fontFamily="monospace" transform={`rotate(-90 10 ${(HEIGHT - MARGIN.bottom) / 2})`}>
+          α (rad)
+        </text>
+
+        {/* Analytic curves */}
+        <path d={weakPath} fill="none" stroke="#60a5fa" strokeWidth={1.5} strokeDasharray="4 3" />
+        {showExact && <path d={exactPath} fill="none" stroke="#4ade80" strokeWidth={1.5} />}
+
+        {/* Measured deflections */}
+        {samples.map((sample) => {
+          const inRange = sample.impactParameter >= B_RANGE[0] && sample.impactParameter <= B_RANGE[1]
+            && sample.deflection >= ALPHA_RANGE[0] && sample.deflection <= ALPHA_RANGE[1];
+          if (!inRange) return null;
+          return (
+            <g key={sample.id}>
+              <circle cx={toX(sample.impactParameter)} cy={toY(sample.deflection)} r={3} fill="#ef4444" />
+              <text x={toX(sample.impactParameter) + 5} y={toY(sample.deflection) - 4} fill="#fca5a5" fontSize="9" fontFamily="monospace">
+                #{sample.id}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex gap-3 text-xs font-mono mt-1">
+        <span className="text-red-400">● {labels.measured}</span>
+        <span className="text-blue-400">- - {labels.weakField}</span>
+        {showExact && <span className="text-green-400">— {labels.exact}</span>}
+      </div>
+      {samples.length === 0 && (
+        <div className="text-white/50 text-xs mt-1">{labels.noSamples}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { createMetric, type MetricParams } from '@/physics';
+import { getTrajectoryPool, unlessSuperseded } from '@/trajectories';
+import {
+  diskRequests,
+  diskTable,
+  redshiftColor,
+  renderDiskImage,
+  REDSHIFT_RANGE,
+  supportsDiskImage,
+  type DiskTable,
+} from '@/lensing';
+
+// Disk settings chosen in the panel; the inner edge follows the metric
+export type DiskSettings = {
+  inclination: number; // radians from the disk axis
+  outerRadius: number; // r_s
+};
+
+type DiskPanelProps = {
+  disk: DiskSettings;
+  metric: MetricParams;
+  onChange: (disk: DiskSettings) => void;
+  onError: (error: Error) => void; // the rays could not be traced
+  labels: {
+    title: string;
+    inclination: string;
+    outerRadius: string;
+    innerEdge: string;
+    redshift: string;
+    unsupported: string;
+    tracing: string;
+  };
+};
+
+// Resolution of the rendered image
+const IMAGE_SIZE = { width: 320, height: 200 };
+
+// Stops of the colour bar, evenly spread over the redshift range
+const COLORBAR = Array.from({ length: 9 }, (_, i) => {
+  const g = REDSHIFT_RANGE[0] + ((REDSHIFT_RANGE[1] - REDSHIFT_RANGE[0]) * i) / 8;
+  return `rgb(${redshiftColor(g).join(',')})`;
+}).join(', ');
+
+/**
+ * Image of a thin Keplerian accretion disk, between the innermost stable
+ * circular orbit and an outer radius, seen by a distant observer at the
+ * chosen inclination.  The far side of the disk is lifted above the
+ * shadow and a secondary image wraps below it; each pixel is coloured by
+ * the combined gravitational and Doppler redshift factor g.
+ */
+export default function DiskPanel({ disk, metric, onChange, onError, labels }: DiskPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [table, setTable] = useState<DiskTable | null>(null);
+  const [tracing, setTracing] = useState(false);
+
+  const supported = supportsDiskImage(metric);
+  const innerRadius = useMemo(() => createMetric(metric).innermostStableOrbit, [metric]);
+  const requests = useMemo(
+    () => (supported ? diskRequests(disk.outerRadius, metric) : []),
+    [supported, disk.outerRadius, metric]
+  );
+
+  useEffect(() => {
+    if (requests.length === 0) return;
+    let cancelled = false;
+    setTracing(true);
+    const pool = getTrajectoryPool();
+    pool.computeAll(requests, 'disk').then(
+      (trajectories) => {
+        if (cancelled) return;
+        setTable(diskTable(trajectories));
+        setTracing(false);
+      },
+      unlessSuperseded((error) => {
+        if (cancelled) return;
+        setTracing(false);
+        onError(error);
+      })
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [requests, onError]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !table || !supported) return;
+    const { width, height } = IMAGE_SIZE;
+    canvas.width = width;
+    canvas.height = height;
+    const image = ctx.createImageData(width, height);
+    image.data.set(renderDiskImage(
+      table,
+      { inclination: disk.inclination, innerRadius, outerRadius: disk.outerRadius },
+      metric,
+      width,
+      height
+    ));
+    ctx.putImageData(image, 0, 0);
+  }, [table, supported, disk.inclination, disk.outerRadius, innerRadius, metric]);
+
+  return (
+    <div
+      className="absolute top-4 right-4 z-40 bg-black/90 p-3 rounded-lg border border-white/20 backdrop-blur-sm space-y-2"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-white/80 text-sm font-medium">{labels.title}</span>
+        <span className="text-white/60 text-xs font-mono">
+          {labels.innerEdge}: {innerRadius.toFixed(2)} Rs{tracing && ` · ${labels.tracing}`}
+        </span>
+      </div>
+      {supported ? (
+        <>
+          <canvas
+            ref={canvasRef}
+            className="block bg-black"
+            style={{ width: IMAGE_SIZE.width, height: IMAGE_SIZE.height }}
+          />
+          {/* Colour bar of the redshift factor */}
+          <div>
+            <div className="h-2 rounded" style={{ background: `linear-gradient(to right, ${COLORBAR})` }} />
+            <div className="flex justify-between text-white/60 text-xs font-mono mt-0.5">
+              <span>{REDSHIFT_RANGE[0]}</span>
+              <span>{labels.redshift}</span>
+              <span>{REDSHIFT_RANGE[1]}</span>
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="text-white/50 text-xs w-[320px]">{labels.unsupported}</div>
+      )}
+      <div className="flex items-center justify-between">
+        <span className="text-white/60 text-xs">{labels.inclination}</span>
+        <span className="text-white/60 text-xs font-mono">{((disk.inclination * 180) / Math.PI).toFixed(0)}°</span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={90}
+        step={1}
+        value={(disk.inclination * 180) / Math.PI}
+        onChange={(e) => onChange({ ...disk, inclination: (parseFloat(e.target.value) * Math.PI) / 180 })}
+        className="w-full accent-red-500"
+      />
+      <div className="flex items-center justify-between">
+        <span className="text-white/60 text-xs">{labels.outerRadius}</span>
+        <span className="text-white/60 text-xs font-mono">{disk.outerRadius.toFixed(0)} Rs</span>
+      </div>
+      <input
+        type="range"
+        min={4}
+        max={40}
+        step={1}
+        value={disk.outerRadius}
+        onChange={(e) => onChange({ ...disk, outerRadius: parseFloat(e.target.value) })}
+        className="w-full accent-red-500"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { MetricParams } from '@/physics';
+import {
+  embeddingMesh,
+  embeddingProfile,
+  liftPath,
+  projectEmbedding,
+  supportsEmbedding,
+  type EmbeddingView,
+  type Point3,
+} from '@/embedding';
+
+type EmbeddingPanelProps = {
+  metric: MetricParams;
+  paths: { points: { x: number; y: number }[]; color: string }[]; // r_s units, y up
+  labels: {
+    title: string;
+    outerRadius: string;
+    hint: string;
+    unsupported: string;
+  };
+};
+
+const CANVAS_SIZE = { width: 420, height: 320 };
+
+// Radians of turn per pixel dragged
+const DRAG_RATE = 0.01;
+
+/**
+ * Embedding diagram of the equatorial plane (Flamm's paraboloid for
+ * Schwarzschild) drawn in perspective on a 2D canvas, with the paths of
+ * the emitters lifted onto it.  Drag to turn the surface, scroll to zoom.
+ */
+export default function EmbeddingPanel({ metric, paths, labels }: EmbeddingPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [outerRadius, setOuterRadius] = useState(15);
+  const [view, setView] = useState<EmbeddingView>({ yaw: 0, pitch: 0.5, zoom: 1 });
+  const [dragFrom, setDragFrom] = useState<{ x: number; y: number } | null>(null);
+
+  const supported = supportsEmbedding(metric);
+  const profile = useMemo(() => embeddingProfile(metric, outerRadius), [metric, outerRadius]);
+  const mesh = useMemo(() => embeddingMesh(profile, outerRadius > 20 ? 5 : 1, 24), [profile, outerRadius]);
+  const lifted = useMemo(
+    () => paths.map(({ points, color }) => ({ pieces: liftPath(profile, points), color })),
+    [paths, profile]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !supported) return;
+    const { width, height } = CANVAS_SIZE;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+
+    // Segments further away are fainter, to read the depth of the wireframe
+    const strokeLine = (line: Point3[], color: string, alpha: (depth: number) => number) => {
+      const projected = line.map((point) => projectEmbedding(point, profile, view, width, height));
+      for (let i = 1; i < projected.length; i++) {
+        const a = projected[i - 1];
+        const b = projected[i];
+        ctx.globalAlpha = alpha(0.5 * (a.depth + b.depth));
+        ctx.strokeStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.stroke();
+      }
+    };
+    const fade = (depth: number) => 0.55 - 0.35 * Math.max(-1, Math.min(1, depth / profile.outer));
+
+    ctx.lineWidth = 1;
+    mesh.forEach((line, i) => strokeLine(line, i === 0 ? '#fff' : '#94a3b8', (depth) => (i === 0 ? 0.9 : fade(depth))));
+    ctx.lineWidth = 1.5;
+    for (const { pieces, color } of lifted) {
+      for (const piece of pieces) strokeLine(piece, color, () => 1);
+    }
+    ctx.globalAlpha = 1;
+  }, [supported, profile, mesh, lifted, view]);
+
+  return (
+    <div
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 z-40 bg-black/90 p-3 rounded-lg border border-white/20 backdrop-blur-sm space-y-2"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-white/80 text-sm font-medium">{labels.title}</span>
+        <span className="text-white/50 text-xs">{labels.hint}</span>
+      </div>
+      {supported ? (
+        <canvas
+          ref={canvasRef}
+          className="block bg-black cursor-grab"
+          style={{ width: CANVAS_SIZE.width, height: CANVAS_SIZE.height }}
+          onMouseDown={(e) => setDragFrom({ x: e.clientX, y: e.clientY })}
+          onMouseMove={(e) => {
+            if (!dragFrom) return;
+            const dx = e.clientX - dragFrom.x;
+            const dy = e.clientY - dragFrom.y;
+            setView((prev) => ({
+              ...prev,
+              yaw: prev.yaw - dx * DRAG_RATE,
+              pitch: Math.max(0, Math.min(Math.PI / 2, prev.pitch + dy * DRAG_RATE)),
+            }));
+            setDragFrom({ x: e.clientX, y: e.clientY });
+          }}
+          onMouseUp={() => setDragFrom(null)}
+          onMouseLeave={() => setDragFrom(null)}
+          onWheel={(e) => {
+            const factor = e.deltaY > 0 ? 0.9 : 1.1;
+            setView((prev) => ({ ...prev, zoom: Math.max(0.3, Math.min(5, prev.zoom * factor)) }));
+          }}
+        />
+      ) : (
+        <div className="text-white/50 text-xs w-[420px]">{labels.unsupported}</div>
+      )}
+      <div className="flex items-center justify-between">
+        <span className="text-white/60 text-xs">{labels.outerRadius}</span>
+        <span className="text-white/60 text-xs font-mono">{profile.outer.toFixed(1)} Rs</span>
+      </div>
+      <input
+        type="range"
+        min={3}
+        max={50}
+        step={1}
+        value={outerRadius}
+        onChange={(e) => setOuterRadius(parseFloat(e.target.value))}
+        className="w-full accent-red-500"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React from "react";
+import type { DetectorHit, OpticalElement, OpticalKind } from '@/optics';
+
+type OpticsPanelProps = {
+  elements: OpticalElement[];
+  hits: DetectorHit[];
+  onEditStart: () => void; // a field is focused or its arrows pressed
+  onChange: (id: number, patch: Partial<Pick<OpticalElement, 'angle' | 'size'>>) => void;
+  onRemove: (id: number) => void;
+  labels: {
+    title: string;
+    kinds: Record<OpticalKind, string>;
+    size: Record<OpticalKind, string>;
+    angle: string;
+    hits: string;
+    ray: string;
+    position: string;
+    incidence: string;
+    arrival: string;
+    remove: string;
+  };
+};
+
+const inputClass = "w-16 bg-white/10 text-white text-xs px-2 py-0.5 rounded border border-white/20 focus:border-blue-400 focus:outline-none";
+
+/**
+ * Settings of the mirrors and detectors placed in the playground, and
+ * what each detector recorded: every ray it absorbed, where along it, at
+ * what angle of incidence and at what coordinate time.
+ */
+export default function OpticsPanel({ elements, hits, onEditStart, onChange, onRemove, labels }: OpticsPanelProps) {
+  return (
+    <div
+      className="absolute top-4 left-1/2 -translate-x-1/2 z-40 bg-black/90 p-3 rounded-lg border border-white/20 backdrop-blur-sm space-y-2 max-h-[50vh] overflow-y-auto"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="text-white/80 text-sm font-medium">{labels.title}</div>
+      {elements.map((element) => {
+        const recorded = hits.filter((hit) => hit.detector === element.id);
+        return (
+          <div key={element.id} className="space-y-1 pt-2 border-t border-white/10 first:border-t-0 first:pt-0">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-white/80 w-28">{labels.kinds[element.kind]} #{element.id}</span>
+              <span className="text-white/60">{labels.size[element.kind]}</span>
+              <input
+                type="number"
+                value={element.size}
+                min={0.1}
+                step={0.5}
+                onFocus={onEditStart}
+                onPointerDown={onEditStart}
+                onChange={(e) => {
+                  const size = parseFloat(e.target.value);
+                  if (size > 0) onChange(element.id, { size });
+                }}
+                className={inputClass}
+              />
+              {element.kind !== 'circular-mirror' && (
+                <>
+                  <span className="text-white/60">{labels.angle}</span>
+                  <input
+                    type="number"
+                    value={Number(element.angle.toFixed(1))}
+                    step={1}
+                    onFocus={onEditStart}
+                    onPointerDown={onEditStart}
+                    onChange={(e) => {
+                      const angle = parseFloat(e.target.value);
+                      if (!isNaN(angle)) onChange(element.id, { angle });
+                    }}
+                    className={inputClass}
+                  />
+                </>
+              )}
+              <button
+                onClick={() => onRemove(element.id)}
+                className="ml-auto text-white/60 hover:text-white/90"
+                title={labels.remove}
+              >
+                ✕
+              </button>
+            </div>
+            {element.kind === 'detector' && (
+              <>
+                <div className="text-green-400 text-xs font-mono">
+                  {labels.hits}: {recorded.length}
+                </div>
+                {recorded.length > 0 && (
+                  <table className="text-xs font-mono text-white/70">
+                    <thead>
+                      <tr className="text-white/50">
+                        <th className="text-left pr-3 font-normal">{labels.ray}</th>
+                        <th className="text-right pr-3 font-normal">{labels.position}</th>
+                        <th className="text-right pr-3 font-normal">{labels.incidence}</th>
+                        <th className="text-right font-normal">{labels.arrival}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {recorded.map((hit) => (
+                        <tr key={`${hit.emitter}-${hit.ray}`}>
+                          <td className="pr-3">#{hit.emitter}.{hit.ray}</td>
+                          <td className="text-right pr-3">{hit.position.toFixed(3)}</td>
+                          <td className="text-right pr-3">{hit.angle.toFixed(1)}°</td>
+                          <td className="text-right">{hit.t.toFixed(3)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import React, { useMemo } from "react";
+import { createMetric, type MetricParams, type Trajectory } from '@/physics';
+
+type OrbitPanelProps = {
+  trajectory: Trajectory;
+  metric: MetricParams;
+  kind: 'laser' | 'particle';
+  labels: {
+    title: string;
+    potential: string;
+    energy: string;
+    turningPoints: string;
+    none: string;
+  };
+};
+
+type Box = { width: number; height: number };
+type Range = [number, number];
+
+// Plot sizes and the margin left for tick labels
+const POTENTIAL_BOX: Box = { width: 320, height: 160 };
+const ORBIT_BOX: Box = { width: 156, height: 110 };
+const MARGIN = { left: 32, right: 6, top: 6, bottom: 18 };
+
+// Samples of V_eff(r) and the range of V_eff / E² shown
+const POTENTIAL_SAMPLES = 300;
+const POTENTIAL_CEILING = 2;
+
+const scaleX = (value: number, [lo, hi]: Range, box: Box) =>
+  MARGIN.left + ((value - lo) / (hi - lo || 1)) * (box.width - MARGIN.left - MARGIN.right);
+
+const scaleY = (value: number, [lo, hi]: Range, box: Box) =>
+  box.height - MARGIN.bottom - ((value - lo) / (hi - lo || 1)) * (box.height - MARGIN.top - MARGIN.bottom);
+
+// Polyline through (x, y) pairs, broken wherever y leaves the range
+const linePath = (xs: number[], ys: number[], xRange: Range, yRange: Range, box: Box): string => {
+  const segments: string[] = [];
+  let pen = 'M';
+  xs.forEach((x, i) => {
+    const y = ys[i];
+    if (!Number.isFinite(y) || y < yRange[0] || y > yRange[1]) {
+      pen = 'M';
+      return;
+    }
+    segments.push(`${pen} ${scaleX(x, xRange, box).toFixed(1)} ${scaleY(y, yRange, box).toFixed(1)}`);
+    pen = 'L';
+  });
+  return segments.join(' ');
+};
+
+const extent = (values: number[]): Range => {
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  return hi > lo ? [lo, hi] : [lo - 1, hi + 1];
+};
+
+// Frame with the tick labels of both ranges and the axis names
+function Axes({ box, xRange, yRange, xLabel, yLabel }: {
+  box: Box;
+  xRange: Range;
+  yRange: Range;
+  xLabel: string;
+  yLabel: string;
+}) {
+  const bottom = box.height - MARGIN.bottom;
+  return (
+    <>
+      <rect
+        x={MARGIN.left}
+        y={MARGIN.top}
+        width={box.width - MARGIN.left - MARGIN.right}
+        height={bottom - MARGIN.top}
+        fill="none"
+        stroke="rgba(255,255,255,0.2)"
+      />
+      {xRange.map((value, i) => (
+        <text key={`x-${i}`} x={scaleX(value, xRange, box)} y={bottom + 11} fill="rgba(255,255,255,0.6)" fontSize="9" textAnchor={i === 0 ? 'start' : 'end'} fontFamily="monospace">
+          {value.toPrecision(3)}
+        </text>
+      ))}
+      {yRange.map((value, i) => (
+        <text key={`y-${i}`} x={MARGIN.left - 3} y={scaleY(value, yRange, box) + (i === 0 ? 0 : 7)} fill="rgba(255,255,255,0.6)" fontSize="9" textAnchor="end" fontFamily="monospace">
+          {value.toPrecision(2)}
+        </text>
+      ))}
+      <text x={(box.width + MARGIN.left) / 2} y={box.height - 2} fill="rgba(255,255,255,0.7)" fontSize="9" textAnchor="middle" fontFamily="monospace">
+        {xLabel}
+      </text>
+      <text x={MARGIN.left + 4} y={MARGIN.top + 10} fill="rgba(255,255,255,0.7)" fontSize="9" fontFamily="monospace">
+        {yLabel}
+      </text>
+    </>
+  );
+}
+
+/**
+ * Potential-well view of the selected emitter: the effective potential
+ * V_eff(r) = E² − W(r) for its E and L (f L²/r² for light in a static
+ * spacetime), scaled by E² so that the energy level sits at 1, with the
+ * turning points W = 0 that bound the motion marked; and the integrated
+ * path as r(φ) and 1/r(φ).
+ */
+export default function OrbitPanel({ trajectory, metric, kind, labels }: OrbitPanelProps) {
+  const { energy: E, angularMomentum: L, points } = trajectory;
+  const kappa = kind === 'particle' ? 1 : 0;
+
+  const potential = useMemo(() => {
+    const spacetime = createMetric(metric);
+    const rMin = Math.max(spacetime.captureRadius, 0.05);
+    const rMax = Math.max(10, 1.2 * Math.max(...points.map((point) => point.r)));
+    const radii = Array.from({ length: POTENTIAL_SAMPLES + 1 }, (_, i) => rMin + ((rMax - rMin) * i) / POTENTIAL_SAMPLES);
+    const W = (r: number) => spacetime.radialPotential(r, E, L, kappa);
+    const values = radii.map((r) => 1 - W(r) / (E * E));
+
+    // Sign changes of W, refined by bisection
+    const roots: number[] = [];
+    for (let i = 1; i < radii.length; i++) {
+      let lo = radii[i - 1];
+      let hi = radii[i];
+      if (Math.sign(W(lo)) === Math.sign(W(hi))) continue;
+      for (let k = 0; k < 50; k++) {
+        const mid = (lo + hi) / 2;
+        if (Math.sign(W(mid)) === Math.sign(W(lo))) lo = mid;
+        else hi = mid;
+      }
+      roots.push((lo + hi) / 2);
+    }
+    // Only the roots bounding the region the path runs in, found from the
+    // middle of its radii: a tangential launch starts right on a root
+    const pathRadii = points.map((point) => point.r);
+    const inside = (Math.min(...pathRadii) + Math.max(...pathRadii)) / 2;
+    const inner = roots.filter((r) => r < inside).at(-1);
+    const outer = roots.find((r) => r > inside);
+    const turningPoints = [inner, outer].filter((r): r is number => r !== undefined);
+
+    const floor = Math.max(-1, Math.min(0, ...values));
+    return { radii, values, turningPoints, rRange: [rMin, rMax] as Range, vRange: [floor, POTENTIAL_CEILING] as Range };
+  }, [metric, E, L, kappa, points]);
+
+  const orbit = useMemo(() => {
+    const phi0 = points[0]?.phi ?? 0;
+    const phis = points.map((point) => Math.abs(point.phi - phi0));
+    const radii = points.map((point) => point.r);
+    const inverse = radii.map((r) => 1 / r);
+    return {
+      phis,
+      radii,
+      inverse,
+      phiRange: extent(phis),
+      rRange: extent(radii),
+      inverseRange: extent(inverse),
+    };
+  }, [points]);
+
+  const { rRange, vRange } = potential;
+  const energyY = scaleY(1, vRange, POTENTIAL_BOX);
+
+  return (
+    <div
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 z-40 bg-black/90 p-3 rounded-lg border border-white/20 backdrop-blur-sm space-y-1"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="text-white/80 text-sm font-medium">{labels.title}</div>
+      <svg width={POTENTIAL_BOX.width} height={POTENTIAL_BOX.height}>
+        <Axes box={POTENTIAL_BOX} xRange={rRange} yRange={vRange} xLabel="r (Rs)" yLabel={labels.potential} />
+        <path d={linePath(potential.radii, potential.values, rRange, vRange, POTENTIAL_BOX)} fill="none" stroke="#60a5fa" strokeWidth={1.5} />
+        {/* Energy level */}
+        <line x1={MARGIN.left} y1={energyY} x2={POTENTIAL_BOX.width - MARGIN.right} y2={energyY} stroke="#ef4444" strokeDasharray="4 3" />
+        {/* Launch radius */}
+        <line
+          x1={scaleX(points[0]?.r ?? 0, rRange, POTENTIAL_BOX)}
+          y1={MARGIN.top}
+          x2={scaleX(points[0]?.r ?? 0, rRange, POTENTIAL_BOX)}
+          y2={POTENTIAL_BOX.height - MARGIN.bottom}
+          stroke="rgba(255,255,255,0.3)"
+        />
+        {potential.turningPoints.map((r) => (
+          <circle key={r} cx={scaleX(r, rRange, POTENTIAL_BOX)} cy={energyY} r={3.5} fill="#facc15" />
+        ))}
+      </svg>
+      <div className="flex gap-3 text-xs font-mono">
+        <span className="text-blue-400">— V_eff / E²</span>
+        <span className="text-red-400">- - {labels.energy}</span>
+        <span className="text-yellow-400">
+          ● {labels.turningPoints}:{' '}
+          {potential.turningPoints.length > 0
+            ? potential.turningPoints.map((r) => r.toFixed(3)).join(', ')
+            : labels.none}
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <svg width={ORBIT_BOX.width} height={ORBIT_BOX.height}>
+          <Axes box={ORBIT_BOX} xRange={orbit.phiRange} yRange={orbit.rRange} xLabel="φ (rad)" yLabel="r" />
+          <path d={linePath(orbit.phis, orbit.radii, orbit.phiRange, orbit.rRange, ORBIT_BOX)} fill="none" stroke="#4ade80" strokeWidth={1.5} />
+        </svg>
+        <svg width={ORBIT_BOX.width} height={ORBIT_BOX.height}>
+          <Axes box={ORBIT_BOX} xRange={orbit.phiRange} yRange={orbit.inverseRange} xLabel="φ (rad)" yLabel="1/r" />
+          <path d={linePath(orbit.phis, orbit.inverse, orbit.phiRange, orbit.inverseRange, ORBIT_BOX)} fill="none" stroke="#e879f9" strokeWidth={1.5} />
+        </svg>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  connectingRays,
+  createMetric,
+  weakFieldDelay,
+  type ConnectingRay,
+  type GeodesicOptions,
+  type MetricParams,
+  type ShootingOptions,
+} from '@/physics';
+import { poolTracer, unlessSuperseded } from '@/trajectories';
+
+// Placement of the emitter and the receiver of the experiment
+export type RadarSettings = {
+  emitterRadius: number; // r_s
+  receiverRadius: number; // r_s
+  separation: number; // polar angle from emitter to receiver, radians
+};
+
+type RadarPanelProps = {
+  settings: RadarSettings;
+  metric: MetricParams;
+  rays: ConnectingRay[] | null; // emitter → receiver, null while searching
+  echoes: ConnectingRay[] | null; // receiver → emitter
+  onChange: (settings: RadarSettings) => void;
+  onError: (error: Error) => void; // a ray of the sweep could not be traced
+  labels: {
+    title: string;
+    emitterRadius: string;
+    receiverRadius: string;
+    separation: string;
+    searching: string;
+    noRays: string;
+    side: string;
+    sides: { ccw: string; cw: string };
+    travelTime: string;
+    delay: string;
+    echo: string;
+    periapsis: string;
+    flat: string;
+    sweep: string;
+    sweeping: string;
+    measured: string;
+    weakField: string;
+    delayAxis: string;
+    periapsisAxis: string;
+  };
+};
+
+// The emitter sits on the −x axis, the receiver `separation` further on
+export const radarEndpoints = (settings: RadarSettings) => {
+  const receiverAngle = Math.PI + settings.separation;
+  return {
+    emitter: { x: -settings.emitterRadius, y: 0 },
+    receiver: {
+      x: settings.receiverRadius * Math.cos(receiverAngle),
+      y: settings.receiverRadius * Math.sin(receiverAngle),
+    },
+  };
+};
+
+// Integration settings of the experiment: small steps keep the arrival
+// times, interpolated between points, accurate to ~10⁻⁴ r_s / c
+export const radarOptions = (metric: MetricParams, settings: RadarSettings): GeodesicOptions => ({
+  metric,
+  tolerance: 1e-8,
+  maxStep: 0.1,
+  maxSteps: 20000,
+  escapeRadius: 2 * Math.max(settings.emitterRadius, settings.receiverRadius) + 10,
+});
+
+// Rays around either side of the hole, without full turns
+export const RADAR_SHOOTING: ShootingOptions = { samples: 72, maxWinding: 0, iterations: 40 };
+
+// Separations (degrees) of the delay curve
+const SWEEP_SEPARATIONS = Array.from({ length: 11 }, (_, i) => 30 + 15 * i);
+
+type CurvePoint = { separation: number; periapsis: number; delay: number; weak: number };
+
+// Plot area
+const WIDTH = 320;
+const HEIGHT = 180;
+const MARGIN = { left: 40, right: 10, top: 10, bottom: 30 };
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Radar-echo experiment: an emitter and a receiver at rest at chosen
+ * radii, the light rays connecting them found by shooting, and their
+ * travel times against the flat-space value.  The echo is the round trip
+ * along the same side of the hole, timed by the emitter's own clock.
+ * The delay of the first ray is swept over separations and plotted
+ * against its closest approach, with the weak-field prediction.
+ */
+export default function RadarPanel({ settings, metric, rays, echoes, onChange, onError, labels }: RadarPanelProps) {
+  const [curve, setCurve] = useState<CurvePoint[]>([]);
+  // Separations done so far, null when no sweep is running
+  const [progress, setProgress] = useState<number | null>(null);
+  const cancelSweep = useRef<() => void>(() => {});
+
+  const { emitter, receiver } = radarEndpoints(settings);
+  const flatTime = distance(emitter, receiver);
+  const emitterClock = useMemo(
+    () => createMetric(metric).restClockRate(settings.emitterRadius),
+    [metric, settings.emitterRadius]
+  );
+  const showWeakField = metric.kind === 'schwarzschild';
+
+  // A new spacetime or new radii invalidate the curve
+  useEffect(() => {
+    cancelSweep.current();
+    setCurve([]);
+    setProgress(null);
+  }, [metric, settings.emitterRadius, settings.receiverRadius]);
+
+  useEffect(() => () => cancelSweep.current(), []);
+
+  const handleSweep = async () => {
+    cancelSweep.current();
+    let cancelled = false;
+    cancelSweep.current = () => {
+      cancelled = true;
+    };
+    setCurve([]);
+    for (const [i, degrees] of SWEEP_SEPARATIONS.entries()) {
+      setProgress(i);
+      const sweepSettings = { ...settings, separation: (degrees * Math.PI) / 180 };
+      const ends = radarEndpoints(sweepSettings);
+      const trace = poolTracer(ends.emitter, radarOptions(metric, sweepSettings), () => cancelled);
+      try {
+        const [first] = await connectingRays(ends.emitter, ends.receiver, trace, RADAR_SHOOTING);
+        if (cancelled) return;
+        if (first) {
+          setCurve((prev) => [...prev, {
+            separation: degrees,
+            periapsis: first.periapsis,
+            delay: first.arrival.t - distance(ends.emitter, ends.receiver),
+            weak: weakFieldDelay(ends.emitter, ends.receiver, metric.massFactor),
+          }]);
+        }
+      } catch (error) {
+        unlessSuperseded((failure) => {
+          setProgress(null);
+          onError(failure);
+        })(error);
+        return;
+      }
+    }
+    setProgress(null);
+  };
+
+  // Plot ranges, from the origin to the largest value shown
+  const current = (rays ?? []).map((ray) => ({ periapsis: ray.periapsis, delay: ray.arrival.t - flatTime }));
+  const xMax = Math.max(settings.emitterRadius, settings.receiverRadius);
+  const yMax = 1.1 * Math.max(
+    1,
+    ...curve.map((point) => Math.max(point.delay, showWeakField ? point.weak : 0)),
+    ...current.map((point) => point.delay)
+  );
+  const toX = (r: number) => MARGIN.left + (r / xMax) * (WIDTH - MARGIN.left - MARGIN.right);
+  const toY = (delay: number) => HEIGHT - MARGIN.bottom - (delay / yMax) * (HEIGHT - MARGIN.top - MARGIN.bottom);
+  const weakPath = [...curve]
+    .sort((a, b) => a.periapsis - b.periapsis)
+    .map((point, i) => `${i === 0 ? 'M' : 'L'} ${toX(point.periapsis).toFixed(1)} ${toY(point.weak).toFixed(1)}`)
+    .join(' ');
+
+  const sliders: { label: string; value: string; min: number; max: number; step: number; current: number; set: (value: number) => RadarSettings }[] = [
+    {
+      label: labels.emitterRadius,
+      value: `${settings.emitterRadius.toFixed(1)} Rs`,
+      min: 2,
+      max: 40,
+      step: 0.5,
+      current: settings.emitterRadius,
+      set: (value) => ({ ...settings, emitterRadius: value }),
+    },
+    {
+      label: labels.receiverRadius,
+      value: `${settings.receiverRadius.toFixed(1)} Rs`,
+      min: 2,
+      max: 40,
+      step: 0.5,
+      current: settings.receiverRadius,
+      set: (value) => ({ ...settings, receiverRadius: value }),
+    },
+    {
+      label: labels.separation,
+      value: `${((settings.separation * 180) / Math.PI).toFixed(0)}°`,
+      min: 10,
+      max: 180,
+      step: 1,
+      current: (settings.separation * 180) / Math.PI,
+      set: (value) => ({ ...settings, separation: (value * Math.PI) / 180 }),
+    },
+  ];
+
+  return (
+    <div
+      className="absolute top-1/2 right-4 -translate-y-1/2 z-40 bg-black/90 p-3 rounded-lg border border-white/20 backdrop-blur-sm space-y-2 w-[344px]"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="text-white/80 text-sm font-medium">{labels.title}</div>
+      {sliders.map((slider) => (
+        <div key={slider.label}>
+          <div className="flex items-center justify-between">
+            <span className="text-white/60 text-xs">{slider.label}</span>
+            <span className="text-white/60 text-xs font-mono">{slider.value}</span>
+          </div>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={slider.current}
+            onChange={(e) => onChange(slider.set(parseFloat(e.target.value)))}
+            className="w-full accent-cyan-400"
+          />
+        </div>
+      ))}
+
+      {/* Travel times of the connecting rays */}
+      <div className="text-white/60 text-xs font-mono">
+        {labels.flat}: {flatTime.toFixed(3)} Rs/c · {labels.echo} {(2 * flatTime).toFixed(3)}
+      </div>
+      {rays === null ? (
+        <div className="text-white/50 text-xs">{labels.searching}</div>
+      ) : rays.length === 0 ? (
+        <div className="text-white/50 text-xs">{labels.noRays}</div>
+      ) : (
+        <table className="text-xs font-mono text-white/70 w-full">
+          <thead>
+            <tr className="text-white/50">
+              <th className="text-left font-normal">{labels.side}</th>
+              <th className="text-right font-normal">{labels.travelTime}</th>
+              <th className="text-right font-normal">{labels.delay}</th>
+              <th className="text-right font-normal">{labels.echo}</th>
+              <th className="text-right font-normal">{labels.periapsis}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rays.map((ray) => {
+              const back = echoes?.find((echo) => Math.sign(echo.sweep) === -Math.sign(ray.sweep));
+              return (
+                <tr key={ray.angle}>
+                  <td>{ray.sweep > 0 ? labels.sides.ccw : labels.sides.cw}</td>
+                  <td className="text-right">{ray.arrival.t.toFixed(3)}</td>
+                  <td className="text-right text-cyan-300">{(ray.arrival.t - flatTime).toFixed(3)}</td>
+                  <td className="text-right">
+                    {back ? (emitterClock * (ray.arrival.t + back.arrival.t)).toFixed(3) : '–'}
+                  </td>
+                  <td className="text-right">{ray.periapsis.toFixed(2)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {/* Delay of the first ray against its closest approach */}
+      <svg width={WIDTH} height={HEIGHT}>
+        <line x1={MARGIN.left} y1={toY(0)} x2={WIDTH - MARGIN.right} y2={toY(0)} stroke="rgba(255,255,255,0.3)" />
+        <line x1={MARGIN.left} y1={MARGIN.top} x2={MARGIN.left} y2={HEIGHT - MARGIN.bottom} stroke="rgba(255,255,255,0.3)" />
+        {[0.25, 0.5, 0.75, 1].map((fraction) => (
+          <g key={fraction}>
+            <text x={toX(fraction * xMax)} y={HEIGHT - MARGIN.bottom + 12} fill="rgba(255,255,255,0.7)" fontSize="10" textAnchor="middle" fontFamily="monospace">
+              {(fraction * xMax).toFixed(0)}
+            </text>
+            <text x={MARGIN.left - 4} y={toY(fraction * yMax) + 3} fill="rgba(255,255,255,0.7)" fontSize="10" textAnchor="end" fontFamily="monospace">
+              {(fraction * yMax).toFixed(1)}
+            </text>
+          </g>
+        ))}
+        <text x={(WIDTH + MARGIN.left) / 2} y={HEIGHT - 4} fill="rgba(255,255,255,0.7)" fontSize="10" textAnchor="middle" fontFamily="monospace">
+          {labels.periapsisAxis}
+        </text>
+        <text x={10} y={(HEIGHT - MARGIN.bottom) / 2} fill="rgba(255,255,255,0.7)" fontSize="10" textAnchor="middle" fontFamily="monospace" transform={`rotate(-90 10 ${(HEIGHT - MARGIN.bottom) / 2})`}>
+          {labels.delayAxis}
+        </text>
+        {showWeakField && curve.length > 1 && (
+          <path d={weakPath} fill="none" stroke="#60a5fa" strokeWidth={1.5} strokeDasharray="4 3" />
+        )}
+        {curve.map((point) => (
+          <circle key={point.separation} cx={toX(point.periapsis)} cy={toY(point.delay)} r={3} fill="#ef4444" />
+        ))}
+        {current.map((point, i) => (
+          <circle key={i} cx={toX(point.periapsis)} cy={toY(point.delay)} r={4} fill="none" stroke="#22d3ee" strokeWidth={1.5} />
+        ))}
+      </svg>
+      <div className="flex items-center gap-3 text-xs font-mono">
+        <span className="text-red-400">● {labels.measured}</span>
+        {showWeakField && <span className="text-blue-400">- - {labels.weakField}</span>}
+        <button
+          onClick={handleSweep}
+          disabled={progress !== null}
+          className="ml-auto px-2 py-0.5 rounded border border-white/20 text-white/80 hover:bg-white/10 disabled:opacity-50"
+        >
+          {progress !== null ? `${labels.sweeping} ${progress}/${SWEEP_SEPARATIONS.length}` : labels.sweep}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef } from "react";
+
+// One polyline of the trajectory layer
+export type RayStroke = {
+  id: string;
+  points: { x: number; y: number }[]; // world coordinates in Rs units, y up
+  color: string;
+  width: number; // line width in screen pixels
+  dash?: number[];
+  times?: number[]; // clock reading at each point, for animation
+  holdAtEnd?: boolean; // keep the head at the last point once the clock passes it
+};
+
+type TrajectoryCanvasProps = {
+  width: number;
+  height: number;
+  origin: { x: number; y: number }; // black hole centre on the canvas, panning included
+  scale: number; // screen pixels per Rs, zoom included
+  rays: RayStroke[];
+  // Current time of the animation: rays with `times` are drawn up to it,
+  // with a dot at the photon or particle; null draws whole paths
+  clock?: number | null;
+};
+
+// Index of the first reading later than the clock (binary search)
+const firstAfter = (times: number[], clock: number): number => {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] > clock) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+};
+
+/**
+ * Single Canvas 2D layer on which every light ray and particle path is
+ * drawn, replacing one DOM node per integration step.  Paths are given in
+ * world coordinates and the view only enters through `origin` and
+ * `scale`; segments entirely outside the canvas are skipped.  It ignores
+ * the mouse, so the emitter handles above it keep their own hit-testing.
+ */
+export default function TrajectoryCanvas({ width, height, origin, scale, rays, clock = null }: TrajectoryCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    // Sharp lines on high-density screens
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // World → screen: y flips, the black hole sits at the origin
+    ctx.setTransform(dpr * scale, 0, 0, -dpr * scale, dpr * origin.x, dpr * origin.y);
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+
+    // Visible world rectangle, with a margin for the line width
+    const margin = 2 / scale;
+    const left = -origin.x / scale - margin;
+    const right = (width - origin.x) / scale + margin;
+    const top = origin.y / scale + margin;
+    const bottom = (origin.y - height) / scale - margin;
+
+    for (const ray of rays) {
+      const { points } = ray;
+      if (points.length < 2) continue;
+
+      // Stretch of the path already travelled, and the point reached
+      let count = points.length;
+      let head: { x: number; y: number } | null = null;
+      if (clock !== null && ray.times) {
+        count = firstAfter(ray.times, clock);
+        if (count === 0) continue;
+        if (count < points.length) {
+          const a = points[count - 1];
+          const b = points[count];
+          const s = (clock - ray.times[count - 1]) / (ray.times[count] - ray.times[count - 1]);
+          head = { x: a.x + s * (b.x - a.x), y: a.y + s * (b.y - a.y) };
+        } else if (ray.holdAtEnd) {
+          head = points[points.length - 1];
+        }
+      }
+      const at = (i: number) => (i < count ? points[i] : head!);
+      const segments = head && count < points.length ? count : count - 1;
+
+      ctx.beginPath();
+      let penDown = false;
+      for (let i = 1; i <= segments; i++) {
+        const a = at(i - 1);
+        const b = at(i);
+        const culled = (a.x < left && b.x < left) || (a.x > right && b.x > right)
+          || (a.y > top && b.y > top) || (a.y < bottom && b.y < bottom);
+        if (culled) {
+          penDown = false;
+          continue;
+        }
+        if (!penDown) ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        penDown = true;
+      }
+      ctx.strokeStyle = ray.color;
+      ctx.lineWidth = ray.width / scale;
+      ctx.setLineDash((ray.dash ?? []).map((length) => length / scale));
+      ctx.stroke();
+
+      if (head) {
+        ctx.beginPath();
+        ctx.arc(head.x, head.y, 3 / scale, 0, 2 * Math.PI);
+        ctx.fillStyle = ray.color;
+        ctx.fill();
+      }
+    }
+  }, [width, height, origin.x, origin.y, scale, rays, clock]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute left-0 top-0 z-20"
+      style={{ width, height, pointerEvents: "none" }}
+    />
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * Embedding diagram of the equatorial plane: the surface of revolution
+ * z(r) in flat 3D space whose intrinsic geometry is that of the slice
+ * t = const, θ = π/2.  Its radial lines have length √g_rr dr, so
+ *   dz/dr = √(g_rr − 1) ,
+ * which for Schwarzschild gives Flamm's paraboloid  z = 2 √(r_s (r − r_s)) .
+ * Paths of the plane are lifted onto the surface point by point; the
+ * projection onto the screen is a plain perspective one, done on the CPU.
+ * Lengths in units of r_s.
+ */
+import { createMetric, type MetricParams } from '@/physics';
+
+export type Point3 = { x: number; y: number; z: number };
+
+// Heights z(r) sampled on r = inner + u², u evenly spaced, which keeps
+// the steep throat at the horizon well resolved
+export type EmbeddingProfile = {
+  inner: number; // radius of the throat (the horizon), r_s
+  outer: number; // last radius reached, r_s
+  step: number; // spacing in u = √(r − inner)
+  heights: number[];
+  // Proper radial distance from the throat, the length of the profile
+  distances: number[];
+};
+
+// Orientation of the camera around the surface
+export type EmbeddingView = {
+  yaw: number; // turn about the vertical axis, radians
+  pitch: number; // elevation above the plane, radians (π/2 looks straight down)
+  zoom: number;
+};
+
+// Samples of the profile
+const PROFILE_SAMPLES = 400;
+
+// Distance of the camera from the centre, in units of the outer radius
+const CAMERA_DISTANCE = 3;
+
+// The equatorial slice of a spinning hole is not a surface of revolution
+// with this metric: its g_φφ differs from r²
+export const supportsEmbedding = (metric: MetricParams) =>
+  metric.kind !== 'kerr' || metric.spin === 0 || metric.massFactor === 0;
+
+/**
+ * Height of the surface from the throat out to `outer`, integrating
+ * dz/du = 2u √(g_rr − 1) by the midpoint rule, and the proper radial
+ * distance  ds/du = 2u √g_rr  alongside.  The profile stops early
+ * where the slice stops being spatial (beyond the cosmological horizon of
+ * Schwarzschild–de Sitter).
+ */
+export const embeddingProfile = (metricParams: MetricParams, outer: number): EmbeddingProfile => {
+  const metric = createMetric(metricParams);
+  const inner = metricParams.massFactor > 0 ? metric.captureRadius : 0;
+  const step = Math.sqrt(outer - inner) / PROFILE_SAMPLES;
+  const heights = [0];
+  const distances = [0];
+  for (let i = 0; i < PROFILE_SAMPLES; i++) {
+    const u = (i + 0.5) * step;
+    const scale = metric.radialScale(inner + u * u);
+    if (!Number.isFinite(scale)) break;
+    heights.push(heights[i] + step * 2 * u * Math.sqrt(Math.max(0, scale * scale - 1)));
+    distances.push(distances[i] + step * 2 * u * scale);
+  }
+  return { inner, outer: inner + ((heights.length - 1) * step) ** 2, step, heights, distances };
+};
+
+// Height of the surface at radius r, or null off the profile
+export const embeddingHeight = (profile: EmbeddingProfile, r: number): number | null => {
+  if (r < profile.inner || r > profile.outer) return null;
+  const index = Math.sqrt(r - profile.inner) / profile.step;
+  const i = Math.min(Math.floor(index), profile.heights.length - 2);
+  const s = index - i;
+  return profile.heights[i] + s * (profile.heights[i + 1] - profile.heights[i]);
+};
+
+/**
+ * Wireframe of the surface: circles of constant r every `ringSpacing` and
+ * `spokes` radial lines, as 3D polylines.
+ */
+export const embeddingMesh = (profile: EmbeddingProfile, ringSpacing: number, spokes: number): Point3[][] => {
+  const lines: Point3[][] = [];
+  const lift = (r: number, phi: number): Point3 => ({
+    x: r * Math.cos(phi),
+    y: r * Math.sin(phi),
+    z: embeddingHeight(profile, r) ?? 0,
+  });
+  const rings = [profile.inner];
+  for (let r = Math.ceil(profile.inner / ringSpacing) * ringSpacing; r <= profile.outer; r += ringSpacing) {
+    if (r > profile.inner) rings.push(r);
+  }
+  for (const r of rings) {
+    lines.push(Array.from({ length: 73 }, (_, i) => lift(r, (i / 72) * 2 * Math.PI)));
+  }
+  for (let k = 0; k < spokes; k++) {
+    const phi = (k / spokes) * 2 * Math.PI;
+    lines.push(Array.from({ length: 61 }, (_, i) => {
+      const u = (i / 60) * Math.sqrt(profile.outer - profile.inner);
+      return lift(profile.inner + u * u, phi);
+    }));
+  }
+  return lines;
+};
+
+// A path of the plane on the surface, broken wherever it leaves it
+export const liftPath = (profile: EmbeddingProfile, points: { x: number; y: number }[]): Point3[][] => {
+  const pieces: Point3[][] = [];
+  let piece: Point3[] = [];
+  for (const point of points) {
+    const z = embeddingHeight(profile, Math.hypot(point.x, point.y));
+    if (z === null) {
+      if (piece.length > 1) pieces.push(piece);
+      piece = [];
+    } else {
+      piece.push({ x: point.x, y: point.y, z });
+    }
+  }
+  if (piece.length > 1) pieces.push(piece);
+  return pieces;
+};
+
+/**
+ * Perspective projection onto a screen of the given size: the camera
+ * circles the vertical axis at `yaw`, looks down at `pitch` towards the
+ * middle height of the surface, and the outer edge fills most of the
+ * screen at zoom 1.  Depth (larger is further) is returned for fading.
+ */
+export const projectEmbedding = (
+  point: Point3,
+  profile: EmbeddingProfile,
+  view: EmbeddingView,
+  width: number,
+  height: number
+): { x: number; y: number; depth: number } => {
+  const centre = 0.5 * profile.heights[profile.heights.length - 1];
+  const across = point.x * Math.cos(view.yaw) + point.y * Math.sin(view.yaw);
+  const along = -point.x * Math.sin(view.yaw) + point.y * Math.cos(view.yaw);
+  const up = point.z - centre;
+  const depth = along * Math.cos(view.pitch) - up * Math.sin(view.pitch);
+  const vertical = along * Math.sin(view.pitch) + up * Math.cos(view.pitch);
+  const camera = CAMERA_DISTANCE * profile.outer;
+  const k = (view.zoom * 0.45 * Math.min(width, height) * CAMERA_DISTANCE) / (camera + depth);
+  return { x: width / 2 + k * across, y: height / 2 - k * vertical, depth };
+};
@@ -0,0 +1,234 @@
+/**
+ * Standalone figures of the playground, for slides and papers.
+ *
+ * A figure is described in world units (r_s, y up) plus the view that
+ * maps them onto the page, and is written out as a self-contained SVG
+ * document; PNGs are rasterised from that same SVG, so both formats
+ * always agree.  Nothing here touches React or the live canvas.
+ */
+
+// Role of a path, which decides its colour and dash in each style
+export type FigureStrokeRole = 'light' | 'particle' | 'newtonian';
+
+export type FigureStroke = {
+  role: FigureStrokeRole;
+  points: { x: number; y: number }[]; // r_s units, y up
+};
+
+export type FigureEmitter = {
+  id: number;
+  kind: 'laser' | 'particle';
+  x: number; // r_s units, y up
+  y: number;
+  angle: number; // degrees, counter-clockwise from +x
+};
+
+export type FigureOptic = {
+  id: number;
+  kind: 'flat-mirror' | 'circular-mirror' | 'detector';
+  x: number; // centre, r_s units, y up
+  y: number;
+  angle: number; // direction along flat elements, degrees counter-clockwise from +x
+  size: number; // length of flat elements, radius of circular mirrors (r_s)
+};
+
+export type Figure = {
+  width: number; // page size in pixels
+  height: number;
+  origin: { x: number; y: number }; // black hole centre on the page
+  scale: number; // pixels per r_s
+  horizonRadius: number; // r_s
+  strokes: FigureStroke[];
+  emitters: FigureEmitter[];
+  optics: FigureOptic[]; // mirrors and detectors
+  stars: { x: number; y: number; r: number; o: number }[]; // page pixels
+  grid: boolean;
+};
+
+export type FigureOptions = {
+  print: boolean; // white background and black lines
+  legend: boolean; // list every emitter with its coordinates and angle
+  stars: boolean;
+};
+
+type Palette = {
+  background: string;
+  foreground: string;
+  grid: string;
+  text: string;
+  strokes: Record<FigureStrokeRole, { color: string; dash?: string }>;
+  mirror: string;
+  detector: string;
+};
+
+const SCREEN_PALETTE: Palette = {
+  background: '#000',
+  foreground: '#fff',
+  grid: 'rgba(255,255,255,0.2)',
+  text: 'rgba(255,255,255,0.7)',
+  strokes: {
+    light: { color: '#ef4444' },
+    particle: { color: '#fb923c' },
+    newtonian: { color: 'rgba(253,224,71,0.6)' },
+  },
+  mirror: '#cbd5e1',
+  detector: '#4ade80',
+};
+
+const PRINT_PALETTE: Palette = {
+  background: '#fff',
+  foreground: '#000',
+  grid: '#d4d4d4',
+  text: '#333',
+  strokes: {
+    light: { color: '#000' },
+    particle: { color: '#000', dash: '6 3' },
+    newtonian: { color: '#888', dash: '2 2' },
+  },
+  mirror: '#000',
+  detector: '#000',
+};
+
+// Grid steps (r_s) tried in turn until the lines are this far apart
+const GRID_STEPS = [0.5, 1, 2, 5, 10, 20, 50, 100];
+const MIN_GRID_SPACING = 40;
+
+const format = (value: number) => Number(value.toFixed(2)).toString();
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Write the figure as an SVG document.  Paths are clipped by the page
+ * itself; the grid is labelled in r_s with a step chosen to keep the
+ * tick labels readable at any zoom.
+ */
+export const figureToSvg = (figure: Figure, options: FigureOptions): string => {
+  const { width, height, origin, scale } = figure;
+  const palette = options.print ? PRINT_PALETTE : SCREEN_PALETTE;
+  const toX = (x: number) => format(origin.x + x * scale);
+  const toY = (y: number) => format(origin.y - y * scale);
+  const parts: string[] = [];
+
+  parts.push(`<rect width="${width}" height="${height}" fill="${palette.background}"/>`);
+
+  if (options.stars) {
+    for (const star of figure.stars) {
+      parts.push(`<circle cx="${format(star.x)}" cy="${format(star.y)}" r="${star.r}" fill="${palette.foreground}" opacity="${format(star.o)}"/>`);
+    }
+  }
+
+  if (figure.grid) {
+    const step = GRID_STEPS.find((candidate) => candidate * scale >= MIN_GRID_SPACING) ?? GRID_STEPS[GRID_STEPS.length - 1];
+    const lines: string[] = [];
+    const labels: string[] = [];
+    for (let i = Math.ceil(-origin.x / scale / step); i * step * scale <= width - origin.x; i++) {
+      const x = toX(i * step);
+      lines.push(`M ${x} 0 V ${height}`);
+      labels.push(`<text x="${x}" y="${height - 10}" text-anchor="middle">${format(i * step)}</text>`);
+    }
+    for (let i = Math.ceil((origin.y - height) / scale / step); i * step * scale <= origin.y; i++) {
+      const y = toY(i * step);
+      lines.push(`M 0 ${y} H ${width}`);
+      labels.push(`<text x="10" y="${Number(y) + 4}" text-anchor="start">${format(i * step)}</text>`);
+    }
+    parts.push(`<path d="${lines.join(' ')}" stroke="${palette.grid}" stroke-width="1" fill="none"/>`);
+    parts.push(`<g fill="${palette.text}" font-family="monospace" font-size="10">${labels.join('')}</g>`);
+  }
+
+  // The hole: a filled disc inside the dashed horizon, as on screen
+  const horizon = format(figure.horizonRadius * scale);
+  parts.push(`<circle cx="${toX(0)}" cy="${toY(0)}" r="${horizon}" fill="#000" stroke="${palette.foreground}" stroke-width="1.5" stroke-dasharray="4 4"/>`);
+
+  for (const stroke of figure.strokes) {
+    if (stroke.points.length < 2) continue;
+    const style = palette.strokes[stroke.role];
+    const d = stroke.points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${toX(point.x)} ${toY(point.y)}`).join(' ');
+    parts.push(
+      `<path d="${d}" fill="none" stroke="${style.color}" stroke-width="1" stroke-linejoin="round"${style.dash ? ` stroke-dasharray="${style.dash}"` : ''}/>`
+    );
+  }
+
+  // Mirrors and detectors, drawn thick as on screen, detectors dashed
+  for (const optic of figure.optics) {
+    const color = optic.kind === 'detector' ? palette.detector : palette.mirror;
+    const x = origin.x + optic.x * scale;
+    const y = origin.y - optic.y * scale;
+    if (optic.kind === 'circular-mirror') {
+      parts.push(`<circle cx="${format(x)}" cy="${format(y)}" r="${format(optic.size * scale)}" fill="none" stroke="${color}" stroke-width="3"/>`);
+    } else {
+      const theta = (optic.angle * Math.PI) / 180;
+      const dx = (optic.size * scale * Math.cos(theta)) / 2;
+      const dy = (optic.size * scale * Math.sin(theta)) / 2;
+      parts.push(
+        `<path d="M ${format(x - dx)} ${format(y + dy)} L ${format(x + dx)} ${format(y - dy)}" stroke="${color}" stroke-width="3"${optic.kind === 'detector' ? ' stroke-dasharray="6 2"' : ''}/>`
+      );
+    }
+    parts.push(`<text x="${format(x + 4)}" y="${format(y - 6)}" fill="${color}" font-family="monospace" font-size="10">#${optic.id}</text>`);
+  }
+
+  // Emitters: a dot with a short arrow along the launch direction
+  for (const emitter of figure.emitters) {
+    const theta = (emitter.angle * Math.PI) / 180;
+    const x = origin.x + emitter.x * scale;
+    const y = origin.y - emitter.y * scale;
+    const color = palette.strokes[emitter.kind === 'particle' ? 'particle' : 'light'].color;
+    parts.push(
+      `<g stroke="${color}" fill="${color}">`
+      + `<circle cx="${format(x)}" cy="${format(y)}" r="3"/>`
+      + `<path d="M ${format(x)} ${format(y)} L ${format(x + 14 * Math.cos(theta))} ${format(y - 14 * Math.sin(theta))}" stroke-width="1.5"/>`
+      + `</g>`,
+      `<text x="${format(x + 6)}" y="${format(y - 6)}" fill="${palette.text}" font-family="monospace" font-size="10">#${emitter.id}</text>`
+    );
+  }
+
+  if (options.legend && figure.emitters.length > 0) {
+    const rows = figure.emitters.map((emitter) => escapeXml(
+      `#${emitter.id} ${emitter.kind}  (${emitter.x.toFixed(2)}, ${emitter.y.toFixed(2)}) Rs  ${emitter.angle.toFixed(1)}°`
+    ));
+    const boxWidth = 12 + 6.2 * Math.max(...rows.map((row) => row.length));
+    const boxHeight = 10 + 14 * rows.length;
+    const left = width - boxWidth - 10;
+    parts.push(
+      `<g font-family="monospace" font-size="10">`
+      + `<rect x="${format(left)}" y="10" width="${format(boxWidth)}" height="${boxHeight}" fill="${palette.background}" stroke="${palette.grid}"/>`
+      + rows.map((row, i) => `<text x="${format(left + 6)}" y="${24 + 14 * i}" fill="${palette.foreground}">${row}</text>`).join('')
+      + `</g>`
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...parts,
+    '</svg>',
+  ].join('\n');
+};
+
+/**
+ * Rasterise an SVG document at `pixelRatio` times its own size.  Runs in
+ * the browser only: the SVG is drawn onto a canvas through an image.
+ */
+export const svgToPng = (svg: string, width: number, height: number, pixelRatio: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('canvas 2D context unavailable'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('SVG could not be rasterised'));
+    };
+    image.src = url;
+  });
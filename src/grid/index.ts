@@ -0,0 +1,70 @@
+/**
+ * Coordinate overlays of the playground beyond the flat grid: ticks of
+ * proper radial distance along the circles of constant r, and local
+ * light cones showing where light can get to from each point.
+ * Lengths in units of r_s.
+ */
+import type { Metric, MetricParams } from '@/physics';
+import type { EmbeddingProfile } from '@/embedding';
+
+export const GRID_MODES = ['cartesian', 'radial'] as const;
+export type GridMode = (typeof GRID_MODES)[number];
+
+export const LIGHT_CONE_MODES = ['off', 'schwarzschild', 'eddington-finkelstein'] as const;
+export type LightConeMode = (typeof LIGHT_CONE_MODES)[number];
+
+/**
+ * Radii at which the proper radial distance from the horizon, measured by
+ * observers at rest, reaches each multiple of `spacing`.  Near the
+ * horizon they crowd towards it more slowly than r does: the first r_s
+ * of proper distance only takes r a fraction of r_s out.
+ */
+export const properDistanceTicks = (
+  profile: EmbeddingProfile,
+  spacing: number
+): { r: number; distance: number }[] => {
+  const ticks: { r: number; distance: number }[] = [];
+  const { distances, step, inner } = profile;
+  let next = spacing;
+  for (let i = 0; i + 1 < distances.length; i++) {
+    while (next <= distances[i + 1]) {
+      const u = (i + (next - distances[i]) / (distances[i + 1] - distances[i])) * step;
+      ticks.push({ r: inner + u * u, distance: next });
+      next += spacing;
+    }
+  }
+  return ticks;
+};
+
+// Light cones need a static time: a spinning hole drags them around
+export const supportsLightCones = (metric: MetricParams) =>
+  metric.kind !== 'kerr' || metric.spin === 0 || metric.massFactor === 0;
+
+/**
+ * Where light emitted at radius r gets to in one unit of coordinate time:
+ * an ellipse in the (radial, tangential) plane, offset by `centre` along
+ * the outward radial direction, for a static metric.  Null where the
+ * time coordinate is not timelike (Schwarzschild time inside the horizon,
+ * Eddington–Finkelstein time inside the inner horizon of a charged hole).
+ *
+ * With g_tt = −f and g_rr = 1/f, in Schwarzschild time the front is
+ * centred with semi-axes f (radial) and √f (tangential), closing up at the
+ * horizon.  In ingoing Eddington–Finkelstein time  t̃ = t + r* − r ,
+ *   ds² = −f dt̃² + 2(1 − f) dt̃ dr + (2 − f) dr² + r² dφ² ,
+ * the front has semi-axes 1/(2 − f) and 1/√(2 − f) and is pulled inwards
+ * by (1 − f)/(2 − f): at the horizon its outer edge reaches the emitter,
+ * and inside it every direction leads inwards.
+ */
+export const lightFront = (
+  metric: Metric,
+  r: number,
+  coordinates: Exclude<LightConeMode, 'off'>
+): { centre: number; radial: number; tangential: number } | null => {
+  // ṫ = E/f for static metrics, so a ray of unit energy gives f back
+  const f = 1 / metric.timeRate(r, 1, 0);
+  if (coordinates === 'schwarzschild') {
+    return f > 0 ? { centre: 0, radial: f, tangential: Math.sqrt(f) } : null;
+  }
+  if (!(f < 2)) return null;
+  return { centre: -(1 - f) / (2 - f), radial: 1 / (2 - f), tangential: 1 / Math.sqrt(2 - f) };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { computeTrajectory } from '@/trajectories';
+import { DEFAULT_METRIC } from '@/physics';
+import { lensingRequests, lensingTable } from './camera';
+
+// Critical impact parameter of the photon sphere, 3√3/2 r_s
+const CRITICAL_B = (3 * Math.sqrt(3)) / 2;
+
+describe('lensingTable', () => {
+  it('puts the edge of the shadow where  sin ψ = (3√3/2) √f / r  (Synge)', () => {
+    for (const r of [3, 10]) {
+      const requests = lensingRequests(r, DEFAULT_METRIC);
+      const table = lensingTable(requests, requests.map(computeTrajectory));
+      // Looking outwards the sky is seen, looking at the hole the shadow
+      const edge = table.outgoing.findIndex((outgoing) => outgoing === null);
+      expect(edge).toBeGreaterThan(0);
+      expect(table.outgoing.slice(edge).every((outgoing) => outgoing === null)).toBe(true);
+
+      // Within one sample of the table
+      const synge = Math.PI - Math.asin((CRITICAL_B * Math.sqrt(1 - 1 / r)) / r);
+      const step = table.psi[1] - table.psi[0];
+      expect(Math.abs((table.psi[edge - 1] + table.psi[edge]) / 2 - synge)).toBeLessThan(step);
+    }
+  });
+});
@@ -0,0 +1,161 @@
+import { createMetric, type Metric, type MetricParams, type Trajectory } from '@/physics';
+import type { TrajectoryRequest } from '@/trajectories';
+import { skyColor } from './sky';
+
+// An observer at rest (non-rotating, around a Kerr hole) looking out from
+// a point of the equatorial plane
+export type Observer = {
+  x: number; // position in r_s units, y up
+  y: number;
+  angle: number; // viewing direction, radians counter-clockwise from +x
+  fov: number; // horizontal field of view, radians
+};
+
+// Launch angles sampled per half turn when tracing rays back from the camera
+const TABLE_SAMPLES = 720;
+
+// Rays traced back from the camera are followed far enough for their
+// remaining bending (≈ r_s / R) to be invisible
+const CAMERA_RAY_OPTIONS = { escapeRadius: 1000, maxStep: 20, maxSteps: 8000, tolerance: 1e-7 };
+
+/**
+ * Final direction of light arriving at the observer, as a function of the
+ * angle ψ between the direction in which it is seen and the outward
+ * radial direction.  Each ray is traced backwards in the plane spanned by
+ * the radial direction and the line of sight; `outgoing` is the in-plane
+ * angle, from the radial direction, at which the ray leaves for the sky,
+ * or null when it comes from the hole.
+ */
+export type LensingTable = {
+  psi: number[];
+  outgoing: (number | null)[];
+};
+
+// Static holes are symmetric under ψ → −ψ; a spinning one is not
+export const isSymmetricMetric = (metric: MetricParams) => metric.kind !== 'kerr' || metric.spin === 0;
+
+/**
+ * The observer at rest measures ψ in its own frame, where the radial and
+ * tangential lengths are stretched by √g_rr and √g_φφ / r against those
+ * of the coordinate velocity (ṙ, r φ̇) that launches rays:
+ * tan ψ = √f tan ψ_coord  around a static hole.  Inside the horizon,
+ * where every ray is captured anyway, the two are left equal.
+ */
+const frameScales = (metric: Metric, r: number): [number, number] => {
+  const radial = metric.radialScale(r);
+  return Number.isFinite(radial) ? [radial, metric.tangentialScale(r)] : [1, 1];
+};
+
+const coordinateAngle = (metric: Metric, r: number, psi: number): number => {
+  const [radial, tangential] = frameScales(metric, r);
+  return Math.atan2(Math.sin(psi) / tangential, Math.cos(psi) / radial);
+};
+
+const localAngle = (metric: Metric, r: number, psi: number): number => {
+  const [radial, tangential] = frameScales(metric, r);
+  return Math.atan2(Math.sin(psi) * tangential, Math.cos(psi) * radial);
+};
+
+/**
+ * Light rays to trace for the lensing table of an observer at radius r:
+ * launched from (r, 0) at every sampled ψ, on [0, π] for symmetric metrics
+ * and [−π, π] otherwise.  The table does not depend on where around the
+ * hole the observer stands, nor on where it looks.
+ */
+export const lensingRequests = (r: number, metric: MetricParams): TrajectoryRequest[] => {
+  const first = isSymmetricMetric(metric) ? 0 : -TABLE_SAMPLES;
+  const spacetime = createMetric(metric);
+  return Array.from({ length: TABLE_SAMPLES - first + 1 }, (_, i) => ({
+    kind: 'laser',
+    init: { x: r, y: 0, angle: coordinateAngle(spacetime, r, ((first + i) / TABLE_SAMPLES) * Math.PI) },
+    speed: 0,
+    options: { metric, ...CAMERA_RAY_OPTIONS },
+    endpointsOnly: true,
+  }));
+};
+
+// The ψ of each request is read back from its launch angle
+export const lensingTable = (requests: TrajectoryRequest[], trajectories: Trajectory[]): LensingTable => {
+  const metric = createMetric(requests[0]?.options.metric);
+  return {
+    psi: requests.map(({ init }) => localAngle(metric, Math.hypot(init.x, init.y), init.angle)),
+    outgoing: trajectories.map((trajectory) => {
+      if (trajectory.termination !== 'escaped' || trajectory.points.length < 2) return null;
+      const [a, b] = trajectory.points;
+      return Math.atan2(b.y - a.y, b.x - a.x);
+    }),
+  };
+};
+
+// Outgoing angle at ψ, interpolated between neighbouring samples
+const lookup = (table: LensingTable, psi: number): number | null => {
+  const { psi: angles, outgoing } = table;
+  const step = angles[1] - angles[0];
+  const position = Math.max(0, Math.min(angles.length - 1, (psi - angles[0]) / step));
+  const i = Math.min(angles.length - 2, Math.floor(position));
+  const a = outgoing[i];
+  const b = outgoing[i + 1];
+  if (a === null || b === null) return position - i < 0.5 ? a : b;
+  // Unwrap across ±π before interpolating
+  let delta = b - a;
+  if (delta > Math.PI) delta -= 2 * Math.PI;
+  if (delta < -Math.PI) delta += 2 * Math.PI;
+  return a + (position - i) * delta;
+};
+
+/**
+ * Render the lensed sky seen by the observer into RGBA pixels.  A pixel
+ * direction d is reduced to the plane of the radial direction e_r and d,
+ * looked up in the table and rotated back.  This is exact for spherically
+ * symmetric holes and for the equatorial row of a Kerr hole; off the
+ * equator a Kerr image neglects the tilt of the ray's plane.
+ */
+export const renderLensedSky = (
+  table: LensingTable,
+  observer: Observer,
+  width: number,
+  height: number
+): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const phi0 = Math.atan2(observer.y, observer.x);
+  const er = [Math.cos(phi0), Math.sin(phi0), 0];
+  const ephi = [-Math.sin(phi0), Math.cos(phi0), 0];
+  const symmetric = table.psi[0] >= 0;
+
+  // Camera frame: forward, right (clockwise of forward, seen from above), up
+  const forward = [Math.cos(observer.angle), Math.sin(observer.angle), 0];
+  const right = [Math.sin(observer.angle), -Math.cos(observer.angle), 0];
+  const scale = Math.tan(observer.fov / 2);
+
+  for (let py = 0; py < height; py++) {
+    const v = height > 1 ? ((height - 1 - 2 * py) / width) * scale : 0;
+    for (let px = 0; px < width; px++) {
+      const u = ((2 * px + 1 - width) / width) * scale;
+      const norm = Math.hypot(1, u, v);
+      const d = [0, 1, 2].map((k) => (forward[k] + u * right[k]) / norm + (k === 2 ? v / norm : 0));
+
+      // Decompose along e_r and the in-plane perpendicular ê
+      const cosPsi = d[0] * er[0] + d[1] * er[1];
+      const perp = [d[0] - cosPsi * er[0], d[1] - cosPsi * er[1], d[2]];
+      const sinPsi = Math.hypot(perp[0], perp[1], perp[2]);
+      const e = sinPsi > 1e-12 ? perp.map((c) => c / sinPsi) : ephi;
+      // Light reaching the camera is traced back in time, which around a
+      // Kerr hole amounts to reversing the spin: the mirror image ψ → −ψ
+      const prograde = e[0] * ephi[0] + e[1] * ephi[1] >= 0;
+      const sense = symmetric || !prograde ? 1 : -1;
+
+      const outgoing = lookup(table, sense * Math.atan2(sinPsi, cosPsi));
+      const i = 4 * (py * width + px);
+      pixels[i + 3] = 255;
+      if (outgoing === null) continue; // the shadow
+
+      const c = Math.cos(outgoing);
+      const s = sense * Math.sin(outgoing);
+      const [r, g, b] = skyColor(c * er[0] + s * e[0], c * er[1] + s * e[1], s * e[2]);
+      pixels[i] = r;
+      pixels[i + 1] = g;
+      pixels[i + 2] = b;
+    }
+  }
+  return pixels;
+};
@@ -0,0 +1,177 @@
+import { createMetric, type MetricParams, type Trajectory } from '@/physics';
+import type { TrajectoryRequest } from '@/trajectories';
+
+// A thin Keplerian disk in the equatorial plane, seen from far away
+export type DiskView = {
+  inclination: number; // angle between the line of sight and the disk axis, radians
+  innerRadius: number; // r_s, normally the innermost stable circular orbit
+  outerRadius: number;
+};
+
+/**
+ * Rays traced back from the distant observer, one per impact parameter b,
+ * with the in-plane angle φ swept from the observer and the radius r at
+ * each point.  A ray with b > 0 turns counter-clockwise, so φ grows from
+ * zero along it.
+ */
+export type DiskTable = {
+  impactParameters: number[];
+  rays: { phi: Float64Array; r: Float64Array }[];
+};
+
+// Image-plane samples and the distance at which the observer stands
+const DISK_SAMPLES = 240;
+const OBSERVER_DISTANCE = 1000;
+const DISK_RAY_OPTIONS = { escapeRadius: 1.01 * OBSERVER_DISTANCE, maxStep: 5, maxSteps: 8000, tolerance: 1e-7 };
+
+// Orders of images searched for: the direct image, the secondary image
+// below the hole and the first of the thin rings near the shadow
+const MAX_IMAGE_ORDER = 3;
+
+// Redshift range covered by the colour map
+export const REDSHIFT_RANGE: [number, number] = [0.3, 1.7];
+
+// Half-width of the image plane, in r_s, for a disk of this outer radius
+export const diskImageExtent = (outerRadius: number) => 1.15 * outerRadius + 2;
+
+// The reduction to the plane of each ray assumes spherical symmetry
+export const supportsDiskImage = (metric: MetricParams) => metric.kind !== 'kerr' || metric.spin === 0;
+
+/**
+ * Rays for the disk table: launched from (D, 0) towards the hole, with
+ * the small angle  sin ψ = b / D  that gives them impact parameter b at
+ * infinity (exact up to corrections of order r_s / D).
+ */
+export const diskRequests = (outerRadius: number, metric: MetricParams): TrajectoryRequest[] => {
+  const extent = diskImageExtent(outerRadius) * Math.SQRT2;
+  return Array.from({ length: DISK_SAMPLES }, (_, i) => ({
+    kind: 'laser',
+    init: {
+      x: OBSERVER_DISTANCE,
+      y: 0,
+      angle: Math.PI - Math.asin((extent * i) / (DISK_SAMPLES - 1) / OBSERVER_DISTANCE),
+    },
+    speed: 0,
+    options: { metric, ...DISK_RAY_OPTIONS },
+  }));
+};
+
+export const diskTable = (trajectories: Trajectory[]): DiskTable => ({
+  impactParameters: trajectories.map((trajectory) => trajectory.impactParameter),
+  rays: trajectories.map(({ points }) => ({
+    phi: Float64Array.from(points, (point) => point.phi),
+    r: Float64Array.from(points, (point) => point.r),
+  })),
+});
+
+// Radius at which a ray reaches the in-plane angle φ, or null if it is
+// captured or escapes before
+const radiusAt = (ray: DiskTable['rays'][number], phi: number): number | null => {
+  const { phi: angles, r } = ray;
+  const n = angles.length;
+  if (n < 2 || phi > angles[n - 1]) return null;
+  let lo = 0;
+  let hi = n - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (angles[mid] < phi) lo = mid;
+    else hi = mid;
+  }
+  const s = (phi - angles[lo]) / (angles[hi] - angles[lo] || 1);
+  return r[lo] + s * (r[hi] - r[lo]);
+};
+
+/**
+ * Diverging colour map of the redshift factor g = ν_observed / ν_emitted:
+ * red for g < 1, white at g = 1, blue for g > 1.
+ */
+export const redshiftColor = (g: number): [number, number, number] => {
+  const [low, high] = REDSHIFT_RANGE;
+  const s = Math.max(-1, Math.min(1, g < 1 ? (g - 1) / (1 - low) : (g - 1) / (high - 1)));
+  return s < 0
+    ? [255, Math.round(255 * (1 + 0.8 * s)), Math.round(255 * (1 + s))]
+    : [Math.round(255 * (1 - s)), Math.round(255 * (1 - 0.5 * s)), 255];
+};
+
+/**
+ * Render the disk into RGBA pixels of an image plane spanning
+ * ±diskImageExtent horizontally, the disk rotating counter-clockwise
+ * about its axis.  A pixel at (α, β) lies at b = √(α² + β²) and polar
+ * angle χ; its ray moves in the plane of the line of sight o and the
+ * direction w = cos χ e_α + sin χ e_β, where the disk plane is crossed at
+ *   cos φ cos i + sin φ sin χ sin i = 0 ,
+ * every half turn.  The first crossing between the inner and outer radii
+ * is what the pixel shows.  The photon carries  L_z / E = −α sin i , so
+ * the emitter on its circular orbit sees it shifted by
+ *   g = 1 / [u^t (1 + Ω α sin i)] ,
+ * gravitational and Doppler shifts together.  The colour shows g and the
+ * brightness the observed bolometric intensity ∝ g⁴ r⁻², whose beaming
+ * makes the approaching side (α < 0) glow.
+ */
+export const renderDiskImage = (
+  table: DiskTable,
+  view: DiskView,
+  metricParams: MetricParams,
+  width: number,
+  height: number
+): Uint8ClampedArray => {
+  const metric = createMetric(metricParams);
+  const { impactParameters: bs, rays } = table;
+  const sinI = Math.sin(view.inclination);
+  const cosI = Math.cos(view.inclination);
+  const extent = diskImageExtent(view.outerRadius);
+  const pixelSize = (2 * extent) / width;
+
+  const g = new Float32Array(width * height).fill(NaN);
+  const intensity = new Float32Array(width * height);
+  let brightest = 0;
+
+  for (let py = 0; py < height; py++) {
+    const beta = ((height - 1) / 2 - py) * pixelSize;
+    for (let px = 0; px < width; px++) {
+      const alpha = (px - (width - 1) / 2) * pixelSize;
+      const b = Math.hypot(alpha, beta);
+      const chi = Math.atan2(beta, alpha);
+
+      // Neighbouring samples of the table (b grows with the index)
+      const position = Math.min(bs.length - 1, (b / bs[bs.length - 1]) * (bs.length - 1));
+      const j = Math.min(bs.length - 2, Math.floor(position));
+      const s = position - j;
+
+      // First crossing of the disk plane, in (0, π]
+      let crossing = Math.atan2(-cosI, Math.sin(chi) * sinI);
+      crossing = ((crossing % Math.PI) + Math.PI) % Math.PI || Math.PI;
+
+      for (let order = 0; order < MAX_IMAGE_ORDER; order++) {
+        const phi = crossing + order * Math.PI;
+        const ra = radiusAt(rays[j], phi);
+        const rb = radiusAt(rays[j + 1], phi);
+        const r = ra !== null && rb !== null ? ra + s * (rb - ra) : s < 0.5 ? ra : rb;
+        if (r === null) break;
+        if (r < view.innerRadius || r > view.outerRadius) continue;
+
+        const orbit = metric.circularOrbit(r);
+        if (!orbit) break;
+        const shift = 1 / (orbit.uT * (1 + orbit.omega * alpha * sinI));
+        const k = py * width + px;
+        g[k] = shift;
+        intensity[k] = shift ** 4 / (r * r);
+        brightest = Math.max(brightest, intensity[k]);
+        break;
+      }
+    }
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let k = 0; k < width * height; k++) {
+    pixels[4 * k + 3] = 255;
+    if (Number.isNaN(g[k])) continue;
+    // Gamma keeps the faint receding side and the outer disk visible
+    const brightness = (intensity[k] / brightest) ** 0.35;
+    const [red, green, blue] = redshiftColor(g[k]);
+    pixels[4 * k] = red * brightness;
+    pixels[4 * k + 1] = green * brightness;
+    pixels[4 * k + 2] = blue * brightness;
+  }
+  return pixels;
+};
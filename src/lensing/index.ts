@@ -0,0 +1,3 @@
+export * from './sky';
+export * from './camera';
+export * from './disk';
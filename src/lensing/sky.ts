@@ -0,0 +1,123 @@
+/**
+ * Celestial sphere seen through the lens: a fixed catalogue of stars on
+ * an equirectangular texture, with a faint grid of meridians and
+ * parallels and a few bright coloured beacons along the world axes, so
+ * that distortions, Einstein rings and secondary images stand out.
+ */
+
+// Texture resolution (longitude × latitude)
+const SKY_WIDTH = 1024;
+const SKY_HEIGHT = 512;
+const SKY_STAR_COUNT = 3000;
+
+// Bright markers in the directions ±x and ±y of the world
+const BEACONS: { direction: [number, number, number]; color: [number, number, number] }[] = [
+  { direction: [1, 0, 0], color: [255, 80, 80] },
+  { direction: [-1, 0, 0], color: [80, 160, 255] },
+  { direction: [0, 1, 0], color: [90, 255, 120] },
+  { direction: [0, -1, 0], color: [255, 220, 60] },
+];
+
+// Deterministic generator (Park–Miller), so that the sky never changes
+const seededRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+};
+
+let skyTexture: Float32Array | null = null;
+
+// Add light to the texel of a direction, spread over a small disc
+const splat = (
+  texture: Float32Array,
+  lon: number,
+  lat: number,
+  color: [number, number, number],
+  radius: number
+) => {
+  const cx = ((lon + Math.PI) / (2 * Math.PI)) * SKY_WIDTH;
+  const cy = ((Math.PI / 2 - lat) / Math.PI) * SKY_HEIGHT;
+  const reach = Math.ceil(radius) + 1;
+  for (let dy = -reach; dy <= reach; dy++) {
+    const y = Math.floor(cy) + dy;
+    if (y < 0 || y >= SKY_HEIGHT) continue;
+    // Texels widen towards the poles
+    const stretch = 1 / Math.max(0.05, Math.cos(lat));
+    for (let dx = -Math.ceil(reach * stretch); dx <= Math.ceil(reach * stretch); dx++) {
+      const x = (((Math.floor(cx) + dx) % SKY_WIDTH) + SKY_WIDTH) % SKY_WIDTH;
+      const d = Math.hypot((Math.floor(cx) + dx + 0.5 - cx) / stretch, y + 0.5 - cy);
+      const weight = Math.exp(-(d * d) / (2 * radius * radius));
+      if (weight < 0.01) continue;
+      const i = 3 * (y * SKY_WIDTH + x);
+      texture[i] += color[0] * weight;
+      texture[i + 1] += color[1] * weight;
+      texture[i + 2] += color[2] * weight;
+    }
+  }
+};
+
+const buildSky = (): Float32Array => {
+  const texture = new Float32Array(SKY_WIDTH * SKY_HEIGHT * 3);
+
+  // Faint grid every 30°
+  for (let y = 0; y < SKY_HEIGHT; y++) {
+    for (let x = 0; x < SKY_WIDTH; x++) {
+      const onMeridian = x % (SKY_WIDTH / 12) === 0;
+      const onParallel = y % (SKY_HEIGHT / 6) === 0 && y > 0;
+      if (onMeridian || onParallel) {
+        const i = 3 * (y * SKY_WIDTH + x);
+        texture[i] = texture[i + 1] = 40;
+        texture[i + 2] = 60;
+      }
+    }
+  }
+
+  // Stars uniform on the sphere, mostly faint, with a spread of colours
+  const random = seededRandom(12345);
+  for (let n = 0; n < SKY_STAR_COUNT; n++) {
+    const lon = 2 * Math.PI * random() - Math.PI;
+    const lat = Math.asin(2 * random() - 1);
+    const brightness = 255 * Math.min(1, 0.15 / (random() + 0.05));
+    const warmth = random();
+    splat(texture, lon, lat, [
+      brightness,
+      brightness * (0.85 + 0.15 * warmth),
+      brightness * (1.15 - 0.4 * warmth),
+    ], 0.6);
+  }
+
+  for (const beacon of BEACONS) {
+    const [x, y, z] = beacon.direction;
+    splat(texture, Math.atan2(y, x), Math.asin(z), beacon.color, 2.5);
+  }
+  return texture;
+};
+
+/**
+ * Colour (0–255 per channel, possibly above) of the sky in the direction
+ * of the unit vector (x, y, z), bilinearly interpolated.
+ */
+export const skyColor = (x: number, y: number, z: number): [number, number, number] => {
+  if (!skyTexture) skyTexture = buildSky();
+  const u = ((Math.atan2(y, x) + Math.PI) / (2 * Math.PI)) * SKY_WIDTH - 0.5;
+  const v = ((Math.PI / 2 - Math.asin(Math.max(-1, Math.min(1, z)))) / Math.PI) * SKY_HEIGHT - 0.5;
+  const x0 = Math.floor(u);
+  const y0 = Math.max(0, Math.min(SKY_HEIGHT - 2, Math.floor(v)));
+  const fx = u - x0;
+  const fy = Math.max(0, Math.min(1, v - y0));
+  const color: [number, number, number] = [0, 0, 0];
+  for (const [dx, dy, weight] of [
+    [0, 0, (1 - fx) * (1 - fy)],
+    [1, 0, fx * (1 - fy)],
+    [0, 1, (1 - fx) * fy],
+    [1, 1, fx * fy],
+  ]) {
+    const i = 3 * ((y0 + dy) * SKY_WIDTH + ((((x0 + dx) % SKY_WIDTH) + SKY_WIDTH) % SKY_WIDTH));
+    color[0] += weight * skyTexture[i];
+    color[1] += weight * skyTexture[i + 1];
+    color[2] += weight * skyTexture[i + 2];
+  }
+  return color;
+};
@@ -0,0 +1,247 @@
+/**
+ * Optical elements placed in the plane: flat and circular mirrors, and
+ * detector screens that absorb the light reaching them.
+ *
+ * A light ray is integrated as usual until its path first crosses an
+ * element.  Mirrors relaunch it from the point of impact in the reflected
+ * direction, the law of reflection being applied in the frame of
+ * observers at rest, where radial lengths are stretched by √g_rr;
+ * detectors end it with termination 'absorbed'.  The pieces are joined
+ * into one trajectory whose clocks run on across reflections.
+ */
+import {
+  createMetric,
+  integrateLightRay,
+  type GeodesicOptions,
+  type RayInit,
+  type Trajectory,
+  type TrajectoryPoint,
+} from '@/physics';
+
+export const OPTICAL_KINDS = ['flat-mirror', 'circular-mirror', 'detector'] as const;
+export type OpticalKind = (typeof OPTICAL_KINDS)[number];
+
+export type OpticalElement = {
+  id: number;
+  kind: OpticalKind;
+  x: number; // centre, r_s units, y up
+  y: number;
+  angle: number; // direction along flat elements, degrees counter-clockwise from +x
+  size: number; // length of flat elements, radius of circular mirrors (r_s)
+};
+
+// One ray absorbed by a detector
+export type DetectorHit = {
+  detector: number;
+  emitter: number;
+  ray: number;
+  position: number; // along the detector from its centre, r_s
+  angle: number; // angle of incidence from the normal, degrees
+  t: number; // coordinate time of arrival, r_s / c
+  infallingTime: number;
+};
+
+// Reflections after which a ray trapped between mirrors is given up
+const MAX_REFLECTIONS = 50;
+
+// Parameters below this along the first step from a mirror are the
+// reflection point itself
+const SELF_HIT = 1e-9;
+
+const direction = (element: OpticalElement) => {
+  const theta = (element.angle * Math.PI) / 180;
+  return { x: Math.cos(theta), y: Math.sin(theta) };
+};
+
+/**
+ * Fraction s ∈ [0, 1] of the step a → b at which it first meets the
+ * element, or null if it misses it.
+ */
+const intersect = (
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  element: OpticalElement,
+  minS: number
+): number | null => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  if (element.kind === 'circular-mirror') {
+    const px = a.x - element.x;
+    const py = a.y - element.y;
+    const A = dx * dx + dy * dy;
+    const B = 2 * (px * dx + py * dy);
+    const C = px * px + py * py - element.size * element.size;
+    const discriminant = B * B - 4 * A * C;
+    if (A === 0 || discriminant < 0) return null;
+    const root = Math.sqrt(discriminant);
+    const s = [(-B - root) / (2 * A), (-B + root) / (2 * A)].find((value) => value >= minS && value <= 1);
+    return s ?? null;
+  }
+  // Flat element: the segment centre ± (size/2) u
+  const u = direction(element);
+  const denominator = dx * u.y - dy * u.x;
+  if (denominator === 0) return null;
+  const qx = element.x - a.x;
+  const qy = element.y - a.y;
+  const s = (qx * u.y - qy * u.x) / denominator;
+  const along = (qx * dy - qy * dx) / denominator;
+  return s >= minS && s <= 1 && Math.abs(along) <= element.size / 2 ? s : null;
+};
+
+const interpolate = (a: TrajectoryPoint, b: TrajectoryPoint, s: number): TrajectoryPoint => {
+  const x = a.x + s * (b.x - a.x);
+  const y = a.y + s * (b.y - a.y);
+  return {
+    lambda: a.lambda + s * (b.lambda - a.lambda),
+    r: Math.hypot(x, y),
+    phi: a.phi + s * (b.phi - a.phi),
+    x,
+    y,
+    pr: a.pr + s * (b.pr - a.pr),
+    t: a.t + s * (b.t - a.t),
+    infallingTime: a.infallingTime + s * (b.infallingTime - a.infallingTime),
+    residual: a.residual + s * (b.residual - a.residual),
+  };
+};
+
+/**
+ * Direction (radians, counter-clockwise) in which a ray leaves a mirror.
+ * Its velocity (ṙ, r φ̇) and the mirror tangent are taken to the frame
+ * of observers at rest by stretching their radial parts by √g_rr, the
+ * tangential part of the velocity is kept and the normal part reversed.
+ */
+const reflectedAngle = (
+  point: TrajectoryPoint,
+  trajectory: Trajectory,
+  element: OpticalElement,
+  options: GeodesicOptions
+): number => {
+  const metric = createMetric(options.metric);
+  const { r, phi, pr } = point;
+  const scale = metric.radialScale(r);
+  const er = { x: Math.cos(phi), y: Math.sin(phi) };
+  const ephi = { x: -Math.sin(phi), y: Math.cos(phi) };
+
+  const velocity = [pr * scale, r * metric.angularVelocity(r, trajectory.energy, trajectory.angularMomentum)];
+  const tangent = element.kind === 'circular-mirror'
+    ? { x: -(point.y - element.y), y: point.x - element.x }
+    : direction(element);
+  const local = [(tangent.x * er.x + tangent.y * er.y) * scale, tangent.x * ephi.x + tangent.y * ephi.y];
+  const norm = Math.hypot(local[0], local[1]);
+  const t = [local[0] / norm, local[1] / norm];
+
+  const along = velocity[0] * t[0] + velocity[1] * t[1];
+  const reflected = [2 * along * t[0] - velocity[0], 2 * along * t[1] - velocity[1]];
+  const vr = reflected[0] / scale;
+  const vphi = reflected[1];
+  return Math.atan2(vr * er.y + vphi * ephi.y, vr * er.x + vphi * ephi.x);
+};
+
+/**
+ * Integrate a light ray among the optical elements.  Energy, angular
+ * momentum and impact parameter are those of the ray as launched; the
+ * affine parameter and both clocks carry on across reflections.
+ */
+export const traceWithOptics = (
+  init: RayInit,
+  elements: OpticalElement[],
+  options: GeodesicOptions = {}
+): Trajectory => {
+  const first = integrateLightRay(init, options);
+  const points: TrajectoryPoint[] = [];
+  let constraintDrift = 0;
+  let termination = first.termination;
+  let segment = first;
+  let offset = { lambda: 0, t: 0, infallingTime: 0 };
+  let lastMirror: number | null = null;
+  let stepsLeft = options.maxSteps ?? 4000;
+
+  for (let reflections = 0; ; reflections++) {
+    constraintDrift = Math.max(constraintDrift, segment.constraintDrift);
+    const shifted = segment.points.map((point) => ({
+      ...point,
+      lambda: point.lambda + offset.lambda,
+      t: point.t + offset.t,
+      infallingTime: point.infallingTime + offset.infallingTime,
+    }));
+
+    // First element met along this piece of the path
+    let hit: { index: number; s: number; element: OpticalElement } | null = null;
+    for (let i = 0; i + 1 < shifted.length && !hit; i++) {
+      for (const element of elements) {
+        const minS = i === 0 && element.id === lastMirror ? SELF_HIT : 0;
+        const s = intersect(shifted[i], shifted[i + 1], element, minS);
+        if (s !== null && (!hit || s < hit.s)) hit = { index: i, s, element };
+      }
+    }
+
+    if (!hit) {
+      points.push(...shifted);
+      termination = segment.termination;
+      break;
+    }
+
+    const impact = interpolate(shifted[hit.index], shifted[hit.index + 1], hit.s);
+    points.push(...shifted.slice(0, hit.index + 1), impact);
+    if (hit.element.kind === 'detector') {
+      termination = 'absorbed';
+      break;
+    }
+
+    stepsLeft -= hit.index + 1;
+    if (reflections >= MAX_REFLECTIONS || stepsLeft <= 0) {
+      termination = 'max-steps';
+      break;
+    }
+    const angle = reflectedAngle(impact, segment, hit.element, options);
+    segment = integrateLightRay({ x: impact.x, y: impact.y, angle }, { ...options, maxSteps: stepsLeft });
+    offset = { lambda: impact.lambda, t: impact.t, infallingTime: impact.infallingTime };
+    lastMirror = hit.element.id;
+  }
+
+  return { ...first, points, termination, constraintDrift };
+};
+
+/**
+ * Hits recorded by the detectors: every absorbed ray, with where along
+ * which detector it arrived, at what angle and when.
+ */
+export const detectorHits = (
+  elements: OpticalElement[],
+  rays: { emitter: number; ray: number; trajectory: Trajectory }[]
+): DetectorHit[] => {
+  const detectors = elements.filter((element) => element.kind === 'detector');
+  return rays.flatMap(({ emitter, ray, trajectory }) => {
+    const { points, termination } = trajectory;
+    if (termination !== 'absorbed' || points.length < 2) return [];
+    const end = points[points.length - 1];
+    const before = points[points.length - 2];
+
+    // The detector the path ends on
+    let best: { detector: OpticalElement; distance: number } | null = null;
+    for (const detector of detectors) {
+      const u = direction(detector);
+      const along = (end.x - detector.x) * u.x + (end.y - detector.y) * u.y;
+      const across = (end.x - detector.x) * u.y - (end.y - detector.y) * u.x;
+      const distance = Math.abs(across) + Math.max(0, Math.abs(along) - detector.size / 2);
+      if (!best || distance < best.distance) best = { detector, distance };
+    }
+    if (!best) return [];
+
+    const { detector } = best;
+    const u = direction(detector);
+    const dx = end.x - before.x;
+    const dy = end.y - before.y;
+    const tangential = dx * u.x + dy * u.y;
+    const normal = Math.abs(dx * u.y - dy * u.x);
+    return [{
+      detector: detector.id,
+      emitter,
+      ray,
+      position: (end.x - detector.x) * u.x + (end.y - detector.y) * u.y,
+      angle: (Math.atan2(tangential, normal) * 180) / Math.PI,
+      t: end.t,
+      infallingTime: end.infallingTime,
+    }];
+  });
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { exactSchwarzschildDeflection, measuredDeflection, weakFieldDeflection } from './deflection';
+import { integrateLightRay } from './geodesic';
+
+// Rays come from and escape to this distance, where the legs added
+// beyond the integrated path are negligible
+const FAR = 1e5;
+
+const deflectionAt = (b: number) => {
+  const trajectory = integrateLightRay(
+    { x: -FAR, y: b, angle: 0 },
+    { tolerance: 1e-11, step: 1, maxStep: 1000, maxSteps: 100000, escapeRadius: 1.01 * FAR }
+  );
+  return {
+    measured: measuredDeflection(trajectory),
+    exact: exactSchwarzschildDeflection(trajectory.impactParameter),
+  };
+};
+
+describe('exactSchwarzschildDeflection', () => {
+  it('matches integrated rays, from the weak field down to near the photon sphere', () => {
+    for (const b of [2.8, 3, 5, 20]) {
+      const { measured, exact } = deflectionAt(b);
+      expect(exact).not.toBeNull();
+      expect(measured).toBeCloseTo(exact!, 3);
+    }
+  });
+
+  it('tends to 2/b in the weak field', () => {
+    for (const b of [1e3, 1e4, 1e5]) {
+      expect(exactSchwarzschildDeflection(b)! / weakFieldDeflection(b)).toBeCloseTo(1, 2);
+    }
+    expect(exactSchwarzschildDeflection(1e5)).toBeCloseTo(2e-5, 8);
+  });
+
+  it('is null for captured rays', () => {
+    expect(exactSchwarzschildDeflection((3 * Math.sqrt(3)) / 2 - 1e-6)).toBeNull();
+    expect(exactSchwarzschildDeflection(1)).toBeNull();
+  });
+});
+
+describe('measuredDeflection', () => {
+  it('adds the legs beyond a short path, wherever and however the ray was launched', () => {
+    const options = { tolerance: 1e-11, maxSteps: 20000 };
+    // Tangentially at the periapsis, and outwards and inwards from 15 r_s
+    const launches = [
+      { x: 0, y: 2, angle: 0 },
+      { x: 3, y: 0, angle: Math.PI / 2 },
+      { x: 12, y: 9, angle: 0.3 },
+      { x: -12, y: 9, angle: -0.3 },
+    ];
+    for (const launch of launches) {
+      const trajectory = integrateLightRay(launch, options);
+      expect(trajectory.termination).toBe('escaped');
+      expect(measuredDeflection(trajectory)).toBeCloseTo(exactSchwarzschildDeflection(trajectory.impactParameter)!, 3);
+    }
+  });
+
+  it('follows the Newtonian hyperbola,  tan(α/2) = M / (E² b)', () => {
+    const metric = { kind: 'newtonian' as const };
+    const trajectory = integrateLightRay({ x: 0, y: 4, angle: 0 }, { metric, tolerance: 1e-11, maxSteps: 20000 });
+    const { energy, impactParameter } = trajectory;
+    const expected = 2 * Math.atan(0.5 / (energy * energy * Math.abs(impactParameter)));
+    expect(measuredDeflection(trajectory, metric)).toBeCloseTo(expected, 3);
+  });
+
+  it('is null without an asymptotic infinity or an escape', () => {
+    const metric = { kind: 'schwarzschild-de-sitter' as const, cosmologicalConstant: 0.02 };
+    const escaped = integrateLightRay({ x: 5, y: 0, angle: 0.5 }, { metric });
+    expect(escaped.termination).toBe('escaped');
+    expect(measuredDeflection(escaped, metric)).toBeNull();
+    expect(measuredDeflection(integrateLightRay({ x: -10, y: 0, angle: 0 }))).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Deflection of light: measured on integrated rays and predicted by the
+ * weak-field and exact Schwarzschild formulas.  Lengths in units of r_s.
+ */
+import { createMetric, type Metric, type MetricParams } from './metrics';
+import type { Trajectory } from './types';
+
+// Midpoint samples of the integrals over the legs beyond the path
+const TAIL_SAMPLES = 400;
+
+// Angle wrapped into (−π, π]
+const wrap = (angle: number): number => angle - 2 * Math.PI * Math.ceil((angle - Math.PI) / (2 * Math.PI));
+
+/**
+ * |Δφ| swept by a ray of constants E, L between radii r1 and r2 > r1
+ * (r2 may be Infinity), integrating  dφ/dr = Ω / √W  in u = 1/r.  The
+ * substitution  u = u1 − (u1 − u2) w²  absorbs the 1/√W singularity when
+ * r1 is a turning point.
+ */
+const sweep = (metric: Metric, E: number, L: number, r1: number, r2: number): number => {
+  const u1 = 1 / r1;
+  const span = u1 - 1 / r2;
+  let total = 0;
+  for (let k = 0; k < TAIL_SAMPLES; k++) {
+    const w = (k + 0.5) / TAIL_SAMPLES;
+    const r = 1 / (u1 - span * w * w);
+    const W = metric.radialPotential(r, E, L);
+    // W rounds to ≤ 0 only right at a turning point
+    if (W > 0) total += (Math.abs(metric.angularVelocity(r, E, L)) * r * r * 2 * span * w) / Math.sqrt(W);
+  }
+  return total / TAIL_SAMPLES;
+};
+
+// Largest turning point (W = 0) below r, or null when the ray came out of
+// the hole
+const turningPointBelow = (metric: Metric, E: number, L: number, r: number): number | null => {
+  const W = (radius: number) => metric.radialPotential(radius, E, L);
+  let hi = r;
+  for (let lo = r / 1.01; lo > metric.captureRadius; lo /= 1.01) {
+    if (W(lo) < 0) {
+      for (let i = 0; i < 60; i++) {
+        const mid = 0.5 * (lo + hi);
+        if (W(mid) < 0) lo = mid;
+        else hi = mid;
+      }
+      return hi;
+    }
+    hi = lo;
+  }
+  return null;
+};
+
+/**
+ * Total angle (radians) by which an escaped ray has turned between
+ * infinity and infinity.  Along the integrated path the heading (the
+ * tangent φ + atan2(r φ̇, ṙ) in the flat coordinates of the plane) is
+ * followed point by point, so windings around the hole count in full.
+ * The legs the integration did not cover are added analytically: from
+ * infinity to the launch point (through the periapsis when the ray was
+ * launched outwards) and from the escape radius out to infinity.
+ * Returns null for rays that did not escape, rays that came out of the
+ * hole, and metrics without an asymptotic infinity (de Sitter).
+ */
+export const measuredDeflection = (
+  trajectory: Trajectory,
+  metricParams: Partial<MetricParams> = {}
+): number | null => {
+  const { points, termination, energy: E, angularMomentum: L } = trajectory;
+  if (termination !== 'escaped' || points.length < 2) return null;
+  const metric = createMetric(metricParams);
+  if (Number.isFinite(metric.cosmologicalHorizon)) return null;
+
+  const tangent = ({ r, pr }: { r: number; pr: number }) => Math.atan2(r * metric.angularVelocity(r, E, L), pr);
+  let total = 0;
+  let previous = points[0].phi + tangent(points[0]);
+  for (let i = 1; i < points.length; i++) {
+    const heading = points[i].phi + tangent(points[i]);
+    total += wrap(heading - previous);
+    previous = heading;
+  }
+
+  const sense = Math.sign(L);
+  const first = points[0];
+  const last = points[points.length - 1];
+  let incoming = sweep(metric, E, L, first.r, Infinity);
+  if (first.pr > 0) {
+    const periapsis = turningPointBelow(metric, E, L, first.r);
+    if (periapsis === null) return null;
+    incoming = sweep(metric, E, L, periapsis, Infinity) + sweep(metric, E, L, periapsis, first.r);
+  }
+  // Radially inwards at the start, radially outwards at the end
+  total += sense * incoming + wrap(tangent(first) - Math.PI);
+  total += sense * sweep(metric, E, L, last.r, Infinity) - tangent(last);
+  return Math.abs(total);
+};
+
+// Einstein's weak-field deflection  α = 2 r_s / b
+export const weakFieldDeflection = (b: number, massFactor = 1): number =>
+  (2 * massFactor) / Math.abs(b);
+
+/* ------------ elliptic integrals ------------------------------------------ */
+
+// Carlson's symmetric integral R_F(x, y, z) by duplication
+const carlsonRF = (x: number, y: number, z: number): number => {
+  for (let i = 0; i < 100; i++) {
+    const lambda = Math.sqrt(x * y) + Math.sqrt(y * z) + Math.sqrt(z * x);
+    x = 0.25 * (x + lambda);
+    y = 0.25 * (y + lambda);
+    z = 0.25 * (z + lambda);
+    const mean = (x + y + z) / 3;
+    if (Math.max(Math.abs(x - mean), Math.abs(y - mean), Math.abs(z - mean)) < 1e-12 * mean) break;
+  }
+  const mean = (x + y + z) / 3;
+  const dx = 1 - x / mean;
+  const dy = 1 - y / mean;
+  const dz = 1 - z / mean;
+  const e2 = dx * dy - dz * dz;
+  const e3 = dx * dy * dz;
+  return (1 - e2 / 10 + e3 / 14 + (e2 * e2) / 24 - (3 * e2 * e3) / 44) / Math.sqrt(mean);
+};
+
+// Incomplete elliptic integral of the first kind F(φ, k), 0 ≤ φ ≤ π/2
+export const ellipticF = (phi: number, k: number): number => {
+  const s = Math.sin(phi);
+  const c = Math.cos(phi);
+  return s * carlsonRF(c * c, 1 - k * k * s * s, 1);
+};
+
+// Complete elliptic integral of the first kind K(k)
+export const ellipticK = (k: number): number => carlsonRF(0, 1 - k * k, 1);
+
+/**
+ * Periapsis of a Schwarzschild light ray with impact parameter b, the
+ * largest root of  r³ − b² r + b² r_s = 0 .  Null when b < b_c and the
+ * ray is captured.
+ */
+export const schwarzschildPeriapsis = (b: number, massFactor = 1): number | null => {
+  const rs = massFactor;
+  const absB = Math.abs(b);
+  const arg = (-3 * Math.sqrt(3) * rs) / (2 * absB);
+  if (arg < -1) return null;
+  return ((2 * absB) / Math.sqrt(3)) * Math.cos(Math.acos(arg) / 3);
+};
+
+/**
+ * Exact deflection of a ray coming from and escaping to infinity
+ * (Darwin 1959).  With P the periapsis, M = r_s/2 and
+ *   Q² = (P − 2M)(P + 6M) ,   k² = (Q − P + 6M) / 2Q ,
+ *   sin²ζ = (Q − P + 2M) / (Q − P + 6M) ,
+ * the deflection is
+ *   α = −π + 4 √(P/Q) [ K(k) − F(ζ, k) ] .
+ * Null for captured rays (|b| ≤ b_c).
+ */
+export const exactSchwarzschildDeflection = (b: number, massFactor = 1): number | null => {
+  const M = massFactor / 2;
+  const P = schwarzschildPeriapsis(b, massFactor);
+  if (P === null || P <= 3 * M) return null;
+  if (M === 0) return 0;
+  const Q = Math.sqrt((P - 2 * M) * (P + 6 * M));
+  const k = Math.sqrt((Q - P + 6 * M) / (2 * Q));
+  const zeta = Math.asin(Math.sqrt((Q - P + 2 * M) / (Q - P + 6 * M)));
+  return -Math.PI + 4 * Math.sqrt(P / Q) * (ellipticK(k) - ellipticF(zeta, k));
+};
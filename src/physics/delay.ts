@@ -0,0 +1,32 @@
+/**
+ * Shapiro delay of light: the extra travel time of a ray passing a mass
+ * over the time light would take along the straight line in flat space.
+ */
+
+/**
+ * First-order prediction of the delay between two points, in r_s / c,
+ * measured against their Euclidean distance in Schwarzschild coordinates.
+ * To this order the travel time in harmonic coordinates (radii r − M) is
+ *   t = D_h + r_s ln[(r_A + r_B + D_h) / (r_A + r_B − D_h)] ,
+ * and the Schwarzschild distance D of the same points is longer than D_h,
+ * which shortens the delay  t − D  by up to 2M.
+ */
+export const weakFieldDelay = (
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  massFactor = 1
+): number => {
+  const M = massFactor / 2;
+  const rA = Math.hypot(from.x, from.y);
+  const rB = Math.hypot(to.x, to.y);
+  const harmonicA = rA - M;
+  const harmonicB = rB - M;
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const harmonicDistance = Math.hypot(
+    (to.x * harmonicB) / rB - (from.x * harmonicA) / rA,
+    (to.y * harmonicB) / rB - (from.y * harmonicA) / rA
+  );
+  const sum = harmonicA + harmonicB;
+  return harmonicDistance - distance
+    + massFactor * Math.log((sum + harmonicDistance) / (sum - harmonicDistance));
+};
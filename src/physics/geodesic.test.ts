@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { escapeSpeed, integrateLightRay, integrateParticle } from './geodesic';
+import type { Trajectory } from './types';
+
+// Critical impact parameter of the photon sphere, 3√3/2 r_s
+const CRITICAL_B = (3 * Math.sqrt(3)) / 2;
+
+/**
+ * E and L are read back from the path itself: with a fixed step, central
+ * differences give  L = r² dφ/dλ  and  E = f dt/dλ  (Schwarzschild),
+ * which must match the constants the ray was launched with.
+ */
+const conservedAlong = (trajectory: Trajectory) => {
+  const { points } = trajectory;
+  const energies: number[] = [];
+  const momenta: number[] = [];
+  for (let i = 1; i + 1 < points.length; i++) {
+    const { r } = points[i];
+    const dLambda = points[i + 1].lambda - points[i - 1].lambda;
+    const phiDot = (points[i + 1].phi - points[i - 1].phi) / dLambda;
+    const tDot = (points[i + 1].t - points[i - 1].t) / dLambda;
+    momenta.push(r * r * phiDot);
+    energies.push((1 - 1 / r) * tDot);
+  }
+  return { energies, momenta };
+};
+
+describe('integrateLightRay', () => {
+  it('conserves L and E along a strongly bent ray', () => {
+    const trajectory = integrateLightRay(
+      { x: -10, y: 3, angle: 0 },
+      { step: 0.005, maxSteps: 20000, escapeRadius: 20 }
+    );
+    expect(trajectory.termination).toBe('escaped');
+    const { energies, momenta } = conservedAlong(trajectory);
+    for (const E of energies) expect(E).toBeCloseTo(trajectory.energy, 5);
+    for (const L of momenta) expect(L).toBeCloseTo(trajectory.angularMomentum, 5);
+    // Null constraint  p_r² + f L²/r² = E²
+    const { energy: E, angularMomentum: L } = trajectory;
+    for (const { r, pr } of trajectory.points) {
+      expect((pr * pr + ((1 - 1 / r) * L * L) / (r * r)) / (E * E)).toBeCloseTo(1, 8);
+    }
+  });
+
+  it('keeps the null constraint drift small', () => {
+    const fixed = integrateLightRay({ x: -10, y: 3, angle: 0 }, { step: 0.01, maxSteps: 10000, escapeRadius: 20 });
+    expect(fixed.constraintDrift).toBeLessThan(1e-8);
+    const adaptive = integrateLightRay(
+      { x: -10, y: 3, angle: 0 },
+      { tolerance: 1e-10, maxStep: 0.5, maxSteps: 10000, escapeRadius: 20 }
+    );
+    expect(adaptive.constraintDrift).toBeLessThan(1e-8);
+    expect(adaptive.points.length).toBeLessThan(fixed.points.length / 10);
+    // Both leave in the same direction
+    const heading = ({ points }: Trajectory) =>
+      Math.atan2(points.at(-1)!.y - points.at(-2)!.y, points.at(-1)!.x - points.at(-2)!.x);
+    expect(heading(adaptive)).toBeCloseTo(heading(fixed), 4);
+  });
+
+  it('captures rays inside the critical impact parameter 3√3/2 and lets the others escape', () => {
+    for (const y of [2.4, 2.8]) {
+      const trajectory = integrateLightRay({ x: -40, y, angle: 0 }, { maxSteps: 20000 });
+      const captured = Math.abs(trajectory.impactParameter) < CRITICAL_B;
+      expect(trajectory.termination).toBe(captured ? 'captured' : 'escaped');
+    }
+    expect(integrateLightRay({ x: -10, y: 0, angle: 0 }).termination).toBe('captured');
+  });
+
+  it('keeps the infalling clock finite at the horizon, where t diverges', () => {
+    const trajectory = integrateLightRay({ x: 10, y: 0, angle: Math.PI }, { tolerance: 1e-10, maxSteps: 20000 });
+    expect(trajectory.termination).toBe('captured');
+    const last = trajectory.points.at(-1)!;
+    // An ingoing radial ray reaches r = 1 after  T = ∫ dr / (1 + √(1/r))  < 9
+    expect(last.infallingTime).toBeLessThan(9);
+    expect(last.t).toBeGreaterThan(last.infallingTime);
+  });
+
+  it('goes straight in flat space', () => {
+    const trajectory = integrateLightRay({ x: -10, y: 2, angle: 0 }, { metric: { massFactor: 0 }, maxSteps: 10000 });
+    expect(trajectory.termination).toBe('escaped');
+    for (const point of trajectory.points) expect(point.y).toBeCloseTo(2, 8);
+  });
+});
+
+describe('integrateParticle', () => {
+  it('conserves E and L along a bound orbit', () => {
+    const trajectory = integrateParticle({ x: 10, y: 0, angle: Math.PI / 2 }, 0.2, { step: 0.05, maxSteps: 4000 });
+    expect(trajectory.termination).toBe('max-steps');
+    expect(trajectory.energy).toBeLessThan(1);
+    expect(trajectory.constraintDrift).toBeLessThan(1e-6);
+    const { energies, momenta } = conservedAlong(trajectory);
+    for (const E of energies) expect(E).toBeCloseTo(trajectory.energy, 5);
+    for (const L of momenta) expect(L).toBeCloseTo(trajectory.angularMomentum, 5);
+  });
+
+  it('stays on the circular orbit at 3 r_s with E = √(8/9)', () => {
+    // The local speed of a circular orbit is √(M / (r − 2M)) = ½ at 3 r_s
+    const trajectory = integrateParticle({ x: 3, y: 0, angle: Math.PI / 2 }, 0.5, { step: 0.05, maxSteps: 2000 });
+    expect(trajectory.energy).toBeCloseTo(Math.sqrt(8 / 9), 10);
+    for (const point of trajectory.points) expect(point.r).toBeCloseTo(3, 3);
+  });
+});
+
+describe('escapeSpeed', () => {
+  it('equals √(r_s/r) in Schwarzschild, whatever the direction', () => {
+    for (const r of [1.5, 2, 5, 20]) {
+      for (const angle of [0, 1, Math.PI / 2, 3]) {
+        expect(escapeSpeed({ x: r, y: 0, angle })).toBeCloseTo(Math.sqrt(1 / r), 10);
+      }
+    }
+  });
+});
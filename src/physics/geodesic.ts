@@ -0,0 +1,256 @@
+import { adaptiveStep, rk4Step } from './integrators';
+import { createMetric, type Metric, type MetricParams } from './metrics';
+import type { GeodesicState, RayInit, Trajectory, TrajectoryPoint, Termination } from './types';
+
+export type GeodesicOptions = {
+  metric?: Partial<MetricParams>; // Schwarzschild by default
+  step?: number; // fixed affine step (initial step when adaptive)
+  // Error tolerance of the adaptive Dormand–Prince integrator; 0 selects
+  // the fixed-step RK4 scheme
+  tolerance?: number;
+  maxStep?: number; // largest step the adaptive integrator may take
+  maxSteps?: number;
+  // Rays beyond this radius, or the cosmological horizon, count as escaped
+  escapeRadius?: number;
+};
+
+const DEFAULT_GEODESIC_OPTIONS: Required<GeodesicOptions> = {
+  metric: {},
+  step: 0.01,
+  tolerance: 0,
+  maxStep: 1,
+  maxSteps: 4000,
+  escapeRadius: 50,
+};
+
+/* ------------ launch geometry ------------------------------------------- */
+// Polar position of the launch point and unit direction along {e_r, e_φ}
+const launchGeometry = (init: RayInit) => {
+  const r0 = Math.hypot(init.x, init.y);
+  const phi0 = Math.atan2(init.y, init.x);
+
+  // Initial *Euclidean* direction
+  const vx = Math.cos(init.angle);
+  const vy = Math.sin(init.angle);
+
+  return {
+    r0,
+    phi0,
+    n_r: vx * Math.cos(phi0) + vy * Math.sin(phi0),
+    n_phi: -vx * Math.sin(phi0) + vy * Math.cos(phi0),
+  };
+};
+
+/**
+ * Evolve the state [r, φ, p_r, t, T] of a geodesic with constants E, L
+ * through
+ *   r'   = p_r
+ *   φ'   = Ω(r; E, L)
+ *   p_r' = ½ dW/dr
+ *   t'   = ṫ(r; E, L)
+ *   T'   = ṫ + p_r d(T − t)/dr
+ * until it is captured, escapes or runs out of steps.  The residual of
+ * the constraint  p_r² = W(r)  is recorded as a measure of the numerical
+ * error of the integration.
+ */
+const traceGeodesic = (
+  metric: Metric,
+  kappa: number,
+  initial: GeodesicState,
+  E: number,
+  L: number,
+  options: Required<GeodesicOptions>
+): Pick<Trajectory, 'points' | 'termination' | 'constraintDrift'> => {
+  const { step, tolerance, maxStep, maxSteps, escapeRadius } = options;
+  const rCapture = metric.captureRadius;
+  // Rays crossing the cosmological horizon never come back
+  const rEscape = Math.min(escapeRadius, metric.cosmologicalHorizon * 0.999);
+
+  /* ------------ derivative function -------------------------------------- */
+  const derivs = ([r, , p_r]: number[]): number[] => {
+    const tDot = metric.timeRate(r, E, L);
+    return [
+      /* dr/dλ   */ p_r,
+      /* dφ/dλ   */ metric.angularVelocity(r, E, L),
+      /* dp_r/dλ */ metric.radialAcceleration(r, E, L, kappa),
+      /* dt/dλ   */ tDot,
+      /* dT/dλ   */ tDot + p_r * metric.infallingTimeShift(r),
+    ];
+  };
+
+  // Relative violation of the constraint
+  const residual = (r: number, p_r: number): number =>
+    (p_r * p_r - metric.radialPotential(r, E, L, kappa)) / (E * E);
+
+  /* ------------ integration loop ----------------------------------------- */
+  const points: TrajectoryPoint[] = [];
+  let state = initial;
+  let termination: Termination = 'max-steps';
+  let lambda = 0;
+  let h = step;
+  let constraintDrift = 0;
+
+  for (let n = 0; n < maxSteps; n++) {
+    const [r, phi, pr, t, infallingTime] = state;
+
+    // stop if we cross the horizon (a NaN radius also ends up here)
+    if (!(r > rCapture * 1.001)) {
+      termination = 'captured';
+      break;
+    }
+    if (r > rEscape) {
+      termination = 'escaped';
+      break;
+    }
+
+    const res = residual(r, pr);
+    constraintDrift = Math.max(constraintDrift, Math.abs(res));
+    points.push({
+      lambda,
+      r,
+      phi,
+      x: r * Math.cos(phi),
+      y: r * Math.sin(phi),
+      pr,
+      t,
+      infallingTime,
+      residual: res,
+    });
+
+    if (tolerance > 0) {
+      const next = adaptiveStep(state, h, derivs, tolerance, maxStep);
+      state = next.y as GeodesicState;
+      lambda += next.h;
+      h = next.next;
+    } else {
+      state = rk4Step(state, step, derivs) as GeodesicState;
+      lambda += step;
+    }
+  }
+
+  return { points, termination, constraintDrift };
+};
+
+/**
+ * Integrate a *photon* geodesic in the equatorial plane (θ = π/2) of
+ * the given metric, starting from a point and a direction.
+ *
+ * Lengths are in units of r_s and ( ' ) denotes d/dλ (affine parameter).
+ * For Schwarzschild  φ' = L / r²  and  W = E² − V_eff  with
+ * V_eff = f L² / r² ,  f = 1 - r_s/r.
+ *
+ * E and L are fixed by the initial direction, read as the velocity
+ * (ṙ, r v) = (n_r, n_φ) seen by the local non-rotating observer.
+ */
+export const integrateLightRay = (
+  init: RayInit,
+  options: GeodesicOptions = {}
+): Trajectory => {
+  const settings = { ...DEFAULT_GEODESIC_OPTIONS, ...options };
+  const metric = createMetric(settings.metric);
+  const { r0, phi0, n_r, n_phi } = launchGeometry(init);
+
+  // Affine-parameter scale κ is arbitrary – choose 1
+  const p_r0 = n_r;              // ṙ(0)
+  // Conserved energy and angular momentum (rays born inside the horizon
+  // are captured at once, their constants are irrelevant)
+  const { E, L } = r0 > metric.captureRadius
+    ? metric.nullConstants(r0, p_r0, n_phi / r0)
+    : { E: 1, L: 0 };
+
+  return {
+    ...traceGeodesic(metric, 0, [r0, phi0, p_r0, 0, 0], E, L, settings),
+    energy: E,
+    angularMomentum: L,
+    impactParameter: L / E,
+  };
+};
+
+/**
+ * Integrate the *timelike* geodesic of a massive test particle launched
+ * at the given speed (fraction of c), as measured by the local observer.
+ * The affine parameter is the proper time τ of the particle, and E, L
+ * are per unit mass; the particle escapes to infinity when E ≥ 1.
+ */
+export const integrateParticle = (
+  init: RayInit,
+  speed: number,
+  options: GeodesicOptions = {}
+): Trajectory => {
+  const settings = { ...DEFAULT_GEODESIC_OPTIONS, ...options };
+  const metric = createMetric(settings.metric);
+  const { r0, phi0, n_r, n_phi } = launchGeometry(init);
+
+  const { E, L, rDot } = r0 > metric.captureRadius
+    ? metric.timelikeConstants(r0, speed, n_r, n_phi)
+    : { E: 1, L: 0, rDot: 0 };
+
+  const trajectory = traceGeodesic(metric, 1, [r0, phi0, rDot, 0, 0], E, L, settings);
+  return {
+    ...trajectory,
+    energy: E,
+    angularMomentum: L,
+    impactParameter: L / Math.sqrt(Math.max(0, E * E - 1)),
+    properTime: trajectory.points.at(-1)?.lambda ?? 0,
+  };
+};
+
+/**
+ * Smallest launch speed with which a particle leaving the given point
+ * and direction reaches infinity (E = 1), found by bisection.  Equals
+ * √(r_s/r) in Schwarzschild.
+ */
+export const escapeSpeed = (init: RayInit, metricParams: Partial<MetricParams> = {}): number => {
+  const metric = createMetric(metricParams);
+  const { r0, n_r, n_phi } = launchGeometry(init);
+  const energy = (v: number) => metric.timelikeConstants(r0, v, n_r, n_phi).E;
+
+  if (energy(0) >= 1) return 0;
+  let lo = 0;
+  let hi = 1 - 1e-12;
+  for (let i = 0; i < 60; i++) {
+    const mid = 0.5 * (lo + hi);
+    if (energy(mid) < 1) lo = mid;
+    else hi = mid;
+  }
+  return hi;
+};
+
+/**
+ * Launch angle (radians) that gives a ray leaving the point of `init` the
+ * critical impact parameter of the photon orbit it would wind onto, so
+ * that it spirals around it indefinitely.  The ray keeps the sense of
+ * rotation and the radial direction (inwards when tangential) of
+ * `init.angle`.  Returns null when no such ray exists, e.g. inside the
+ * photon sphere or without one.
+ */
+export const criticalLaunchAngle = (
+  init: RayInit,
+  metricParams: Partial<MetricParams> = {}
+): number | null => {
+  const metric = createMetric(metricParams);
+  const { r0, phi0, n_r, n_phi } = launchGeometry(init);
+  const sense = n_phi < 0 ? -1 : 1;
+  const radial = n_r > 0 ? 1 : -1;
+
+  const orbit = metric.photonOrbits.find((o) => Math.sign(o.impactParameter) === sense);
+  if (!orbit || r0 <= orbit.radius) return null;
+
+  // |b| grows with the tangential part u of the direction
+  const impactParameter = (u: number) => {
+    const { E, L } = metric.nullConstants(r0, radial * Math.sqrt(1 - u * u), (sense * u) / r0);
+    return Math.abs(L / E);
+  };
+  const target = Math.abs(orbit.impactParameter);
+  if (impactParameter(1) < target) return null;
+
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 60; i++) {
+    const mid = 0.5 * (lo + hi);
+    if (impactParameter(mid) < target) lo = mid;
+    else hi = mid;
+  }
+  const u = 0.5 * (lo + hi);
+  return phi0 + Math.atan2(sense * u, radial * Math.sqrt(1 - u * u));
+};
@@ -0,0 +1,8 @@
+export * from './types';
+export * from './integrators';
+export * from './kerr';
+export * from './metrics';
+export * from './geodesic';
+export * from './deflection';
+export * from './shooting';
+export * from './delay';
@@ -0,0 +1,93 @@
+/**
+ * Generic ODE steppers for  y' = F(y)  with an autonomous right-hand side.
+ *
+ * States are plain number arrays so the same steppers serve every
+ * geodesic system of the library, whatever its dimension.
+ */
+
+export type Derivatives = (y: number[]) => number[];
+
+// y + h·k, component-wise
+const axpy = (y: number[], h: number, k: number[]): number[] =>
+  y.map((yi, i) => yi + h * k[i]);
+
+/**
+ * One classical fourth-order Runge–Kutta step of size h.
+ */
+export const rk4Step = (y: number[], h: number, derivs: Derivatives): number[] => {
+  const k1 = derivs(y);
+  const k2 = derivs(axpy(y, 0.5 * h, k1));
+  const k3 = derivs(axpy(y, 0.5 * h, k2));
+  const k4 = derivs(axpy(y, h, k3));
+  return y.map((yi, i) => yi + (h / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]));
+};
+
+/* ------------ Dormand–Prince 5(4) tableau --------------------------------- */
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+// 5th-order weights (the last row of DP_A) minus the embedded 4th-order ones
+const DP_E = [
+  71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40,
+];
+
+/**
+ * One Dormand–Prince 5(4) step of size h.  Returns the 5th-order
+ * solution together with the difference to the embedded 4th-order one,
+ * which estimates the local truncation error of the step.
+ */
+export const dormandPrinceStep = (
+  y: number[],
+  h: number,
+  derivs: Derivatives
+): { y: number[]; error: number[] } => {
+  const k: number[][] = [];
+  for (let s = 0; s < 7; s++) {
+    const ys = y.map((yi, i) =>
+      DP_A[s].reduce((acc, a, j) => acc + h * a * k[j][i], yi)
+    );
+    k.push(derivs(ys));
+  }
+  return {
+    y: y.map((yi, i) => DP_A[6].reduce((acc, b, j) => acc + h * b * k[j][i], yi)),
+    error: y.map((_, i) => DP_E.reduce((acc, e, j) => acc + h * e * k[j][i], 0)),
+  };
+};
+
+/**
+ * Take one *accepted* adaptive Dormand–Prince step, shrinking h until
+ * the scaled error  max |eᵢ| / (tol (1 + |yᵢ|))  drops below one.
+ * Returns the new state, the step actually taken and a proposal for the
+ * next one (never larger than maxStep).
+ */
+export const adaptiveStep = (
+  y: number[],
+  h: number,
+  derivs: Derivatives,
+  tolerance: number,
+  maxStep: number
+): { y: number[]; h: number; next: number } => {
+  const minStep = 1e-12;
+  for (;;) {
+    const { y: trial, error } = dormandPrinceStep(y, h, derivs);
+    const err = Math.max(
+      ...error.map((e, i) => Math.abs(e) / (tolerance * (1 + Math.abs(y[i]))))
+    );
+    // a non-finite error (e.g. a stage landing on r = 0) just shrinks h
+    const factor = !Number.isFinite(err) ? 0.2 : err > 0 ? 0.9 * err ** -0.2 : 5;
+    if (err <= 1 || h <= minStep) {
+      return {
+        y: trial,
+        h,
+        next: Math.min(maxStep, h * Math.min(5, Math.max(0.2, factor))),
+      };
+    }
+    h = Math.max(minStep, h * Math.max(0.2, factor));
+  }
+};
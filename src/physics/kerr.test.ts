@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { integrateLightRay } from './geodesic';
+import { createMetric } from './metrics';
+import { kerrHorizonRadius, kerrNullConstants, kerrPhotonOrbitRadii } from './kerr';
+
+describe('kerr', () => {
+  it('reduces to Schwarzschild without spin', () => {
+    expect(kerrHorizonRadius(0)).toBeCloseTo(1, 12);
+    const radii = kerrPhotonOrbitRadii(0);
+    expect(radii.prograde).toBeCloseTo(1.5, 12);
+    expect(radii.retrograde).toBeCloseTo(1.5, 12);
+    // E² = ṙ² + f r² v² ,  L = r² v
+    const { E, L } = kerrNullConstants(4, 0.6, 0.2, 0);
+    expect(E).toBeCloseTo(Math.sqrt(0.36 + 0.75 * 16 * 0.04), 12);
+    expect(L).toBeCloseTo(16 * 0.2, 12);
+  });
+
+  it('has the horizon at M and the photon orbits at M and 4M when extremal', () => {
+    expect(kerrHorizonRadius(1)).toBeCloseTo(0.5, 12);
+    const radii = kerrPhotonOrbitRadii(1);
+    expect(radii.prograde).toBeCloseTo(0.5, 12);
+    expect(radii.retrograde).toBeCloseTo(2, 12);
+  });
+
+  it('has critical impact parameters of 3√3/2 without spin and 1 and −3.5 when extremal', () => {
+    for (const orbit of createMetric({ kind: 'kerr', spin: 0 }).photonOrbits) {
+      expect(Math.abs(orbit.impactParameter)).toBeCloseTo((3 * Math.sqrt(3)) / 2, 12);
+    }
+    const [prograde, retrograde] = createMetric({ kind: 'kerr', spin: 1 }).photonOrbits;
+    expect(prograde.impactParameter).toBeCloseTo(1, 12);
+    expect(retrograde.impactParameter).toBeCloseTo(-3.5, 12);
+  });
+
+  it('has its prograde ISCO at 3 r_s without spin and M when extremal', () => {
+    expect(createMetric({ kind: 'kerr', spin: 0 }).innermostStableOrbit).toBeCloseTo(3, 12);
+    expect(createMetric({ kind: 'kerr', spin: 1 }).innermostStableOrbit).toBeCloseTo(0.5, 6);
+  });
+
+  it('captures retrograde rays that prograde ones with the same |b| survive', () => {
+    // b_c ≈ 1.42 r_s prograde and ≈ 3.42 r_s retrograde at χ = 0.9
+    const options = { metric: { kind: 'kerr' as const, spin: 0.9 }, tolerance: 1e-8, maxSteps: 20000 };
+    expect(integrateLightRay({ x: -40, y: -2.5, angle: 0 }, options).termination).toBe('escaped');
+    expect(integrateLightRay({ x: -40, y: 2.5, angle: 0 }, options).termination).toBe('captured');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Equatorial (θ = π/2) Kerr spacetime in Boyer–Lindquist coordinates.
+ *
+ * Lengths are in units of r_s = 2M; the spin is the dimensionless
+ * χ = a/M, positive for a hole rotating counter-clockwise.  With χ = 0
+ * every expression reduces to its Schwarzschild counterpart.
+ */
+
+// Outer event horizon  r₊ = M + √(M² − a²)
+export const kerrHorizonRadius = (spin: number, massFactor = 1): number => {
+  const M = massFactor / 2;
+  return M * (1 + Math.sqrt(Math.max(0, 1 - spin * spin)));
+};
+
+// Equatorial boundary of the ergosphere, where g_tt = 0:  r = 2M
+export const kerrErgosphereRadius = (massFactor = 1): number => massFactor;
+
+/**
+ * Radii of the circular photon orbits,
+ *   r_ph = 2M {1 + cos[⅔ arccos(∓χ)]} ,
+ * the prograde one (co-rotating with the hole) lying inside the
+ * retrograde one.  Both equal 1.5 r_s for χ = 0.
+ */
+export const kerrPhotonOrbitRadii = (
+  spin: number,
+  massFactor = 1
+): { prograde: number; retrograde: number } => {
+  const M = massFactor / 2;
+  const radius = (sign: number) =>
+    2 * M * (1 + Math.cos((2 / 3) * Math.acos(sign * spin)));
+  return { prograde: radius(-1), retrograde: radius(1) };
+};
+
+/**
+ * Conserved energy and angular momentum of a photon leaving radius r with
+ * radial velocity ṙ and angular velocity v = φ̇ − ωṫ relative to the
+ * locally non-rotating frame, ω = −g_tφ / g_φφ being the frame-dragging
+ * rate.  Writing the equatorial metric as
+ *   ds² = −α² dt² + g_φφ (dφ − ω dt)² + g_rr dr² ,
+ * the null condition gives  α ṫ = √(g_φφ v² + g_rr ṙ²),  and
+ *   L = g_φφ v ,   E = α² ṫ + ω L .
+ * A launch with v = 0 thus has L = 0 and is dragged along by the hole.
+ */
+export const kerrNullConstants = (
+  r: number,
+  rDot: number,
+  v: number,
+  spin: number,
+  massFactor = 1
+): { E: number; L: number } => {
+  const M = massFactor / 2;
+  const a = spin * M;
+  const delta = r * r - 2 * M * r + a * a;
+  const gtt = -(1 - (2 * M) / r);
+  const gtphi = (-2 * M * a) / r;
+  const gphiphi = r * r + a * a + (2 * M * a * a) / r;
+  const grr = (r * r) / delta;
+
+  const omega = -gtphi / gphiphi;
+  const alpha2 = omega * omega * gphiphi - gtt; // lapse squared
+
+  const tDot = Math.sqrt((gphiphi * v * v + grr * rDot * rDot) / alpha2);
+  const L = gphiphi * v;
+  return { E: alpha2 * tDot + omega * L, L };
+};
+
+/**
+ * Conserved energy and angular momentum per unit mass, and dr/dτ, of a
+ * particle leaving r at speed v in the direction (n_r, n_φ) of the
+ * locally non-rotating frame:  with γ = 1/√(1 − v²),
+ *   L = √g_φφ γ v n_φ ,   E = α γ + ω L ,   dr/dτ = γ v n_r / √g_rr .
+ */
+export const kerrTimelikeConstants = (
+  r: number,
+  speed: number,
+  n_r: number,
+  n_phi: number,
+  spin: number,
+  massFactor = 1
+): { E: number; L: number; rDot: number } => {
+  const M = massFactor / 2;
+  const a = spin * M;
+  const delta = r * r - 2 * M * r + a * a;
+  const gtt = -(1 - (2 * M) / r);
+  const gtphi = (-2 * M * a) / r;
+  const gphiphi = r * r + a * a + (2 * M * a * a) / r;
+  const grr = (r * r) / delta;
+
+  const omega = -gtphi / gphiphi;
+  const alpha = Math.sqrt(omega * omega * gphiphi - gtt);
+  const gamma = 1 / Math.sqrt(1 - speed * speed);
+
+  const L = Math.sqrt(gphiphi) * gamma * speed * n_phi;
+  return {
+    E: alpha * gamma + omega * L,
+    L,
+    rDot: (gamma * speed * n_r) / Math.sqrt(grr),
+  };
+};
+
+/**
+ * Radii of the innermost stable circular orbits (Bardeen, Press &
+ * Teukolsky 1972),
+ *   r_isco = M {3 + Z₂ ∓ √[(3 − Z₁)(3 + Z₁ + 2Z₂)]} ,
+ * both equal to 3 r_s for χ = 0.
+ */
+export const kerrIscoRadii = (
+  spin: number,
+  massFactor = 1
+): { prograde: number; retrograde: number } => {
+  const M = massFactor / 2;
+  const z1 = 1 + Math.cbrt(1 - spin * spin) * (Math.cbrt(1 + spin) + Math.cbrt(1 - spin));
+  const z2 = Math.sqrt(3 * spin * spin + z1 * z1);
+  const root = Math.sqrt((3 - z1) * (3 + z1 + 2 * z2));
+  return {
+    prograde: M * (3 + z2 - root),
+    retrograde: M * (3 + z2 + root),
+  };
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { criticalLaunchAngle, integrateLightRay } from './geodesic';
+import { createMetric, reissnerNordstromHorizons, schwarzschildDeSitterHorizons, type MetricParams } from './metrics';
+
+// Critical impact parameter of the photon sphere, 3√3/2 r_s
+const CRITICAL_B = (3 * Math.sqrt(3)) / 2;
+
+// Every spacetime with its parameter switched off
+const SCHWARZSCHILD_LIMITS: Partial<MetricParams>[] = [
+  { kind: 'kerr', spin: 0 },
+  { kind: 'reissner-nordstrom', charge: 0 },
+  { kind: 'schwarzschild-de-sitter', cosmologicalConstant: 0 },
+];
+
+describe('createMetric', () => {
+  it('reduces every metric to Schwarzschild when its parameter vanishes', () => {
+    const reference = createMetric();
+    for (const params of SCHWARZSCHILD_LIMITS) {
+      const metric = createMetric(params);
+      expect(metric.captureRadius).toBeCloseTo(1, 12);
+      for (const r of [1.2, 1.5, 3, 10]) {
+        expect(metric.radialPotential(r, 1, 2)).toBeCloseTo(reference.radialPotential(r, 1, 2), 12);
+        expect(metric.radialAcceleration(r, 1, 2)).toBeCloseTo(reference.radialAcceleration(r, 1, 2), 12);
+        expect(metric.angularVelocity(r, 1, 2)).toBeCloseTo(reference.angularVelocity(r, 1, 2), 12);
+        const { E, L } = metric.nullConstants(r, 0.3, 0.1);
+        expect(E).toBeCloseTo(reference.nullConstants(r, 0.3, 0.1).E, 12);
+        expect(L).toBeCloseTo(reference.nullConstants(r, 0.3, 0.1).L, 12);
+      }
+    }
+  });
+
+  it('is flat without mass', () => {
+    const metric = createMetric({ massFactor: 0 });
+    // W = E² − L²/r² ,  ½ dW/dr = L²/r³
+    expect(metric.radialPotential(2, 1, 2)).toBeCloseTo(0, 12);
+    expect(metric.radialAcceleration(2, 1, 2)).toBeCloseTo(0.5, 12);
+  });
+});
+
+describe('schwarzschild', () => {
+  it('has its photon sphere at 1.5 r_s with b_c = 3√3/2', () => {
+    const metric = createMetric();
+    expect(metric.photonOrbits).toHaveLength(2);
+    for (const orbit of metric.photonOrbits) {
+      expect(orbit.radius).toBeCloseTo(1.5, 12);
+      expect(Math.abs(orbit.impactParameter)).toBeCloseTo(CRITICAL_B, 12);
+    }
+    // p_r = 0 and dp_r/dλ = 0 on the orbit
+    expect(metric.radialPotential(1.5, 1, CRITICAL_B)).toBeCloseTo(0, 12);
+    expect(metric.radialAcceleration(1.5, 1, CRITICAL_B)).toBeCloseTo(0, 12);
+  });
+
+  it('winds rays launched at the critical angle around the photon sphere', () => {
+    const init = { x: 10, y: 0, angle: Math.PI / 2 + 0.1 };
+    const angle = criticalLaunchAngle(init);
+    expect(angle).not.toBeNull();
+    const trajectory = integrateLightRay({ ...init, angle: angle! }, { tolerance: 1e-12, maxSteps: 20000 });
+    expect(Math.abs(trajectory.impactParameter)).toBeCloseTo(CRITICAL_B, 8);
+    // It circles the hole at 1.5 r_s before falling off the unstable orbit
+    const onOrbit = trajectory.points.filter((p) => Math.abs(p.r - 1.5) < 1e-3);
+    expect(onOrbit.at(-1)!.phi - onOrbit[0].phi).toBeGreaterThan(2 * Math.PI);
+  });
+
+  it('has no critical ray from inside the photon sphere', () => {
+    expect(criticalLaunchAngle({ x: 1.4, y: 0, angle: 0 })).toBeNull();
+  });
+
+  it('has its ISCO at 3 r_s with E = √(8/9) and L = √3', () => {
+    const metric = createMetric();
+    expect(metric.innermostStableOrbit).toBeCloseTo(3, 6);
+    const { E, L, rDot } = metric.timelikeConstants(3, 0.5, 0, 1);
+    expect(E).toBeCloseTo(Math.sqrt(8 / 9), 12);
+    expect(L).toBeCloseTo(Math.sqrt(3), 12);
+    expect(rDot).toBe(0);
+    expect(metric.radialPotential(3, E, L, 1)).toBeCloseTo(0, 12);
+    expect(metric.radialAcceleration(3, E, L, 1)).toBeCloseTo(0, 12);
+  });
+});
+
+describe('reissnerNordstromHorizons', () => {
+  it('places the horizons at M ± √(M² − Q²), merging when extremal', () => {
+    expect(reissnerNordstromHorizons(0)).toEqual({ outer: 1, inner: 0 });
+    const { outer, inner } = reissnerNordstromHorizons(0.6);
+    expect(outer).toBeCloseTo(0.9, 12);
+    expect(inner).toBeCloseTo(0.1, 12);
+    expect(reissnerNordstromHorizons(1)).toEqual({ outer: 0.5, inner: 0.5 });
+  });
+});
+
+describe('schwarzschildDeSitterHorizons', () => {
+  it('finds the event and cosmological horizons as the roots of f', () => {
+    const lambda = 0.02;
+    const { event, cosmological } = schwarzschildDeSitterHorizons(lambda);
+    const f = (r: number) => 1 - 1 / r - (lambda * r * r) / 3;
+    expect(f(event)).toBeCloseTo(0, 12);
+    expect(f(cosmological)).toBeCloseTo(0, 12);
+    expect(event).toBeCloseTo(1.0068, 4);
+    expect(cosmological).toBeCloseTo(11.71, 2);
+    expect(schwarzschildDeSitterHorizons(0)).toEqual({ event: 1, cosmological: Infinity });
+  });
+
+  it('captures rays at the event horizon and lets them escape at the cosmological one', () => {
+    const metric = { kind: 'schwarzschild-de-sitter' as const, cosmologicalConstant: 0.02 };
+    const { event, cosmological } = schwarzschildDeSitterHorizons(0.02);
+    expect(createMetric(metric).captureRadius).toBe(event);
+    const outwards = integrateLightRay({ x: 5, y: 0, angle: 0 }, { metric, tolerance: 1e-10, escapeRadius: 50 });
+    expect(outwards.termination).toBe('escaped');
+    expect(outwards.points.at(-1)!.r).toBeLessThan(cosmological);
+    // Coordinate time keeps running forwards up to the horizon
+    for (let i = 1; i < outwards.points.length; i++) {
+      expect(outwards.points[i].t).toBeGreaterThan(outwards.points[i - 1].t);
+    }
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Spacetimes in which rays can be traced.
+ *
+ * Every metric exposes the handful of functions the integrator needs to
+ * evolve the state [r, φ, p_r, t, T] of an equatorial geodesic: the
+ * conserved quantities fixed by the launch direction, the radial
+ * "potential" W(r) with  p_r² = W(r),  its derivative, dφ/dλ and the
+ * rates of the coordinate and infalling clocks.  The potentials take
+ * κ = 0 for light rays and κ = 1 for massive particles, whose affine
+ * parameter is then the proper time and E, L are given per unit mass.  Lengths are in units of
+ * the Schwarzschild radius r_s = 2M of the hole with massFactor = 1.
+ */
+import {
+  kerrHorizonRadius,
+  kerrIscoRadii,
+  kerrNullConstants,
+  kerrPhotonOrbitRadii,
+  kerrTimelikeConstants,
+} from './kerr';
+
+export type MetricKind =
+  | 'schwarzschild'
+  | 'kerr'
+  | 'reissner-nordstrom'
+  | 'schwarzschild-de-sitter'
+  | 'newtonian';
+
+export const METRIC_KINDS: MetricKind[] = [
+  'schwarzschild',
+  'kerr',
+  'reissner-nordstrom',
+  'schwarzschild-de-sitter',
+  'newtonian',
+];
+
+// Serializable description of a spacetime
+export type MetricParams = {
+  kind: MetricKind;
+  // Scales the mass of the hole: 1 is the black hole whose r_s sets the
+  // length unit, 0 is flat space (gravity switched off)
+  massFactor: number;
+  spin: number; // a/M (Kerr)
+  charge: number; // Q/M (Reissner–Nordström)
+  cosmologicalConstant: number; // Λ in units of r_s⁻² (Schwarzschild–de Sitter)
+};
+
+export const DEFAULT_METRIC: MetricParams = {
+  kind: 'schwarzschild',
+  massFactor: 1,
+  spin: 0,
+  charge: 0,
+  cosmologicalConstant: 0,
+};
+
+// Circular photon orbit and the impact parameter of the rays winding
+// onto it: b > 0 for counter-clockwise rays, b < 0 for clockwise ones
+export type PhotonOrbit = {
+  radius: number;
+  impactParameter: number;
+};
+
+export interface Metric {
+  kind: MetricKind;
+  // Rays reaching this radius are captured (the event horizon, or the
+  // surface of the Newtonian dark star)
+  captureRadius: number;
+  // Rays reaching this radius leave the static region for good (the
+  // cosmological horizon, Infinity without one); coordinate time means
+  // nothing beyond it
+  cosmologicalHorizon: number;
+  // Unstable circular photon orbits (none in Newtonian gravity)
+  photonOrbits: PhotonOrbit[];
+  // Innermost stable circular orbit of massive particles, prograde around
+  // a spinning hole; the inner edge of a thin accretion disk
+  innermostStableOrbit: number;
+  // E and L of a ray leaving r with velocity (ṙ, r v), v being the
+  // angular velocity seen by the local (non-rotating) observer
+  nullConstants(r: number, rDot: number, v: number): { E: number; L: number };
+  // E, L and dr/dτ of a particle leaving r at speed v (fraction of c) in
+  // the direction (n_r, n_φ), as measured by the local observer
+  timelikeConstants(
+    r: number,
+    speed: number,
+    n_r: number,
+    n_phi: number
+  ): { E: number; L: number; rDot: number };
+  // W(r) such that  p_r² = W(r)  along the geodesic
+  radialPotential(r: number, E: number, L: number, kappa?: number): number;
+  // dp_r/dλ = ½ dW/dr
+  radialAcceleration(r: number, E: number, L: number, kappa?: number): number;
+  // dφ/dλ
+  angularVelocity(r: number, E: number, L: number): number;
+  // dt/dλ of the coordinate time t, kept by observers far away
+  timeRate(r: number, E: number, L: number): number;
+  // d(T − t)/dr, where T is the proper time of observers falling freely
+  // from rest at infinity (Painlevé–Gullstrand time), regular across the
+  // horizon where t diverges
+  infallingTimeShift(r: number): number;
+  // √g_rr: proper radial length per unit of r, as measured by observers at
+  // rest; mirrors apply the law of reflection in their frame
+  radialScale(r: number): number;
+  // √g_φφ / r: proper length per unit of r φ for the same observers, so
+  // that they see a ray of velocity (ṙ, r v) move along
+  // (radialScale · ṙ, tangentialScale · r v)
+  tangentialScale(r: number): number;
+  // dτ/dt = √(−g_tt) of an observer at rest at r, the rate of its clock
+  // against the coordinate time (zero where no such observer exists)
+  restClockRate(r: number): number;
+  // Angular velocity Ω = dφ/dt and u^t = dt/dτ of the prograde circular
+  // geodesic at r, or null where no timelike circular orbit exists
+  circularOrbit(r: number): { omega: number; uT: number } | null;
+}
+
+/**
+ * Innermost stable circular orbit of a static metric: the minimum of the
+ * angular momentum  L² = r³ f′ / (2f − r f′)  of circular orbits, which
+ * only exist outside the photon sphere.  The first minimum is bracketed
+ * by scanning outwards and refined by golden-section search.
+ */
+const staticIsco = (
+  f: (r: number) => number,
+  df: (r: number) => number,
+  photonSphere: number
+): number => {
+  if (photonSphere <= 0) return 0;
+  const L2 = (r: number) => (r ** 3 * df(r)) / (2 * f(r) - r * df(r));
+  const ratio = 1.005;
+  let r = photonSphere * 1.001;
+  while (r < 100 * photonSphere) {
+    const next = r * ratio;
+    const value = L2(next);
+    // Beyond the static region of a de Sitter hole there are no orbits
+    if (!(value > 0)) return r;
+    if (value > L2(r)) break;
+    r = next;
+  }
+  let lo = r / ratio;
+  let hi = r * ratio;
+  const golden = (Math.sqrt(5) - 1) / 2;
+  for (let i = 0; i < 60; i++) {
+    const a = hi - golden * (hi - lo);
+    const b = lo + golden * (hi - lo);
+    if (L2(a) < L2(b)) hi = b;
+    else lo = a;
+  }
+  return (lo + hi) / 2;
+};
+
+/**
+ * Static, spherically symmetric metric
+ *   ds² = −f dt² + dr²/f + r² dφ²
+ * for which  W = E² − f (κ + L²/r²)  and  ṫ = E/f .  The infalling
+ * observers move at  dr/dT = −√(1 − f) ,  so  dT = dt + √(1 − f)/f dr .  Light rays are launched with
+ * (ṙ, r φ̇) = (n_r, n_φ), so that  L = r n_φ ,  E² = n_r² + f n_φ²;
+ * particles with the Lorentz factor γ of their speed relative to the
+ * static observer,  E = √f γ ,  L = r γ v n_φ .  The photon sphere, where
+ * f/r² peaks, is shared by rays of both senses with  b_c = r_ph/√f(r_ph).
+ * Circular orbits turn at  Ω² = f′/2r  with  u^t = 1/√(f − r f′/2) .
+ */
+const staticMetric = (
+  kind: MetricKind,
+  f: (r: number) => number,
+  df: (r: number) => number,
+  captureRadius: number,
+  photonSphere: number,
+  cosmologicalHorizon = Infinity
+): Metric => ({
+  kind,
+  captureRadius,
+  cosmologicalHorizon,
+  photonOrbits: photonSphere > 0
+    ? [1, -1].map((sign) => ({
+        radius: photonSphere,
+        impactParameter: (sign * photonSphere) / Math.sqrt(f(photonSphere)),
+      }))
+    : [],
+  innermostStableOrbit: staticIsco(f, df, photonSphere),
+  nullConstants: (r, rDot, v) => ({
+    E: Math.sqrt(rDot * rDot + f(r) * r * r * v * v),
+    L: r * r * v,
+  }),
+  timelikeConstants: (r, speed, n_r, n_phi) => {
+    const gamma = 1 / Math.sqrt(1 - speed * speed);
+    return {
+      E: Math.sqrt(f(r)) * gamma,
+      L: r * gamma * speed * n_phi,
+      rDot: Math.sqrt(f(r)) * gamma * speed * n_r,
+    };
+  },
+  radialPotential: (r, E, L, kappa = 0) => E * E - f(r) * (kappa + (L * L) / (r * r)),
+  radialAcceleration: (r, _E, L, kappa = 0) =>
+    -0.5 * (kappa * df(r) + L * L * (df(r) / (r * r) - (2 * f(r)) / (r ** 3))),
+  angularVelocity: (r, _E, L) => L / (r * r),
+  timeRate: (r, E) => E / f(r),
+  infallingTimeShift: (r) => Math.sqrt(Math.max(0, 1 - f(r))) / f(r),
+  radialScale: (r) => 1 / Math.sqrt(f(r)),
+  tangentialScale: () => 1,
+  restClockRate: (r) => Math.sqrt(Math.max(0, f(r))),
+  circularOrbit: (r) => {
+    const redshift = f(r) - (r * df(r)) / 2;
+    if (df(r) < 0 || redshift <= 0) return null;
+    return { omega: Math.sqrt(df(r) / (2 * r)), uT: 1 / Math.sqrt(redshift) };
+  },
+});
+
+// f = 1 − r_s/r ,  photon sphere at 1.5 r_s ,  b_c = 3√3/2 r_s
+export const schwarzschild = (massFactor = 1): Metric => {
+  const rs = massFactor;
+  return staticMetric(
+    'schwarzschild',
+    (r) => 1 - rs / r,
+    (r) => rs / (r * r),
+    rs,
+    1.5 * rs
+  );
+};
+
+/**
+ * f = 1 − r_s/r + r_Q²/r² ,  r_Q = Q  in geometric units.  The horizons
+ *   r± = M ± √(M² − Q²)
+ * approach each other as Q → M (extremal hole), and the photon sphere
+ * shrinks to  r_ph = [3M + √(9M² − 8Q²)] / 2.
+ */
+export const reissnerNordstromHorizons = (
+  charge: number,
+  massFactor = 1
+): { outer: number; inner: number } => {
+  const M = massFactor / 2;
+  const root = M * Math.sqrt(Math.max(0, 1 - charge * charge));
+  return { outer: M + root, inner: M - root };
+};
+
+export const reissnerNordstrom = (charge: number, massFactor = 1): Metric => {
+  const M = massFactor / 2;
+  const Q2 = (charge * M) ** 2;
+  return staticMetric(
+    'reissner-nordstrom',
+    (r) => 1 - (2 * M) / r + Q2 / (r * r),
+    (r) => (2 * M) / (r * r) - (2 * Q2) / (r ** 3),
+    reissnerNordstromHorizons(charge, massFactor).outer,
+    (3 * M + Math.sqrt(9 * M * M - 8 * Q2)) / 2
+  );
+};
+
+/**
+ * f = 1 − r_s/r − Λr²/3 ,  photon sphere still at 1.5 r_s .  The horizons
+ * are the positive roots of  Λr³/3 − r + r_s = 0 :
+ *   r_k = 2/√Λ cos[⅓ arccos(−3√Λ r_s/2) − 2πk/3] ,
+ * k = 0 the cosmological horizon and k = 1 the event horizon, just
+ * outside r_s.  They merge at  Λ = 4/(27 r_s²) , beyond which no observer
+ * can stay at rest anywhere (both are then Infinity).
+ */
+export const schwarzschildDeSitterHorizons = (
+  lambda: number,
+  massFactor = 1
+): { event: number; cosmological: number } => {
+  const rs = massFactor;
+  if (lambda <= 0) return { event: rs, cosmological: Infinity };
+  const arg = (-3 * Math.sqrt(lambda) * rs) / 2;
+  if (arg < -1) return { event: Infinity, cosmological: Infinity };
+  const root = (k: number) => (2 / Math.sqrt(lambda)) * Math.cos(Math.acos(arg) / 3 - (2 * Math.PI * k) / 3);
+  return { event: root(1), cosmological: root(0) };
+};
+
+export const schwarzschildDeSitter = (lambda: number, massFactor = 1): Metric => {
+  const rs = massFactor;
+  const horizons = schwarzschildDeSitterHorizons(lambda, massFactor);
+  return staticMetric(
+    'schwarzschild-de-sitter',
+    (r) => 1 - rs / r - (lambda * r * r) / 3,
+    (r) => rs / (r * r) - (2 * lambda * r) / 3,
+    horizons.event,
+    1.5 * rs,
+    horizons.cosmological
+  );
+};
+
+/**
+ * Equatorial Kerr metric (see kerr.ts).  With Δ = r² − 2Mr + a²,
+ *   W    = E² + (a²E² − L²)/r² + 2M (L − aE)²/r³ − κ Δ/r²
+ *   φ'   = [ (1 − 2M/r) L + 2MaE/r ] / Δ
+ *   t'   = [ (r² + a² + 2Ma²/r) E − 2MaL/r ] / Δ
+ * and the infalling clock is the Doran time,  dT = dt + √(2Mr(r² + a²))/Δ dr .
+ * Prograde circular orbits turn at  Ω = √M / (r^{3/2} + a√M)  with
+ *   u^t = (r^{3/2} + a√M) / [r^{3/4} √(r^{3/2} − 3M√r + 2a√M)] .
+ * The critical impact parameters of the prograde and retrograde photon
+ * orbits are  b = ∓a ± 6M cos[⅓ arccos(∓χ)] .
+ */
+export const kerr = (spin: number, massFactor = 1): Metric => {
+  const M = massFactor / 2;
+  const a = spin * M;
+  const radii = kerrPhotonOrbitRadii(spin, massFactor);
+  return {
+    kind: 'kerr',
+    captureRadius: kerrHorizonRadius(spin, massFactor),
+    cosmologicalHorizon: Infinity,
+    photonOrbits: M > 0 ? [
+      {
+        radius: radii.prograde,
+        impactParameter: -a + 6 * M * Math.cos(Math.acos(-spin) / 3),
+      },
+      {
+        radius: radii.retrograde,
+        impactParameter: -(a + 6 * M * Math.cos(Math.acos(spin) / 3)),
+      },
+    ] : [],
+    innermostStableOrbit: kerrIscoRadii(spin, massFactor).prograde,
+    nullConstants: (r, rDot, v) => kerrNullConstants(r, rDot, v, spin, massFactor),
+    timelikeConstants: (r, speed, n_r, n_phi) =>
+      kerrTimelikeConstants(r, speed, n_r, n_phi, spin, massFactor),
+    radialPotential: (r, E, L, kappa = 0) =>
+      E * E + (a * a * E * E - L * L) / (r * r) + (2 * M * (L - a * E) ** 2) / (r ** 3)
+      - kappa * (1 - (2 * M) / r + (a * a) / (r * r)),
+    radialAcceleration: (r, E, L, kappa = 0) =>
+      -(a * a * E * E - L * L) / (r ** 3) - (3 * M * (L - a * E) ** 2) / (r ** 4)
+      - kappa * (M / (r * r) - (a * a) / (r ** 3)),
+    angularVelocity: (r, E, L) =>
+      ((1 - (2 * M) / r) * L + (2 * M * a * E) / r) / (r * r - 2 * M * r + a * a),
+    timeRate: (r, E, L) =>
+      ((r * r + a * a + (2 * M * a * a) / r) * E - (2 * M * a * L) / r) / (r * r - 2 * M * r + a * a),
+    infallingTimeShift: (r) =>
+      Math.sqrt(2 * M * r * (r * r + a * a)) / (r * r - 2 * M * r + a * a),
+    radialScale: (r) => r / Math.sqrt(r * r - 2 * M * r + a * a),
+    tangentialScale: (r) => Math.sqrt(r * r + a * a + (2 * M * a * a) / r) / r,
+    // Zero inside the ergosphere, where nothing can stay at rest
+    restClockRate: (r) => Math.sqrt(Math.max(0, 1 - (2 * M) / r)),
+    circularOrbit: (r) => {
+      const root = Math.sqrt(M);
+      const radicand = r ** 1.5 - 3 * M * Math.sqrt(r) + 2 * a * root;
+      if (radicand <= 0) return null;
+      return {
+        omega: root / (r ** 1.5 + a * root),
+        uT: (r ** 1.5 + a * root) / (r ** 0.75 * Math.sqrt(radicand)),
+      };
+    },
+  };
+};
+
+/**
+ * Newtonian "corpuscle": a particle thrown past a point mass GM = c² r_s/2,
+ * integrated in absolute time.  Its energy equation
+ *   ṙ² = E² − κ + 2M/r − L²/r²
+ * plays the role of W.  Light corpuscles (κ = 0) move at speed c at
+ * launch and E is the speed they would have at infinity, so that b = L/E
+ * is again the impact parameter; their deflection in the weak field is
+ * r_s/b, half the relativistic value.  For massive ones (κ = 1)
+ * E² = 1 + 2ε, with ε the mechanical energy per unit mass.  Corpuscles
+ * hitting r = r_s are swallowed, as by Michell's dark star.
+ */
+export const newtonian = (massFactor = 1): Metric => {
+  const M = massFactor / 2;
+  return {
+    kind: 'newtonian',
+    captureRadius: 2 * M,
+    cosmologicalHorizon: Infinity,
+    photonOrbits: [],
+    // Every Kepler orbit is stable: the disk reaches down to the surface
+    innermostStableOrbit: 2 * M,
+    nullConstants: (r, _rDot, v) => ({
+      E: Math.sqrt(Math.max(0, 1 - (2 * M) / r)),
+      L: r * r * v,
+    }),
+    timelikeConstants: (r, speed, n_r, n_phi) => ({
+      E: Math.sqrt(Math.max(0, 1 + speed * speed - (2 * M) / r)),
+      L: r * speed * n_phi,
+      rDot: speed * n_r,
+    }),
+    radialPotential: (r, E, L, kappa = 0) => E * E - kappa + (2 * M) / r - (L * L) / (r * r),
+    radialAcceleration: (r, _E, L) => -M / (r * r) + (L * L) / (r ** 3),
+    angularVelocity: (r, _E, L) => L / (r * r),
+    // Absolute time, the same for every observer
+    timeRate: () => 1,
+    infallingTimeShift: () => 0,
+    radialScale: () => 1,
+    tangentialScale: () => 1,
+    restClockRate: () => 1,
+    // Kepler's third law; clocks tick alike, so only the Doppler shift remains
+    circularOrbit: (r) => ({ omega: Math.sqrt(M / r ** 3), uT: 1 }),
+  };
+};
+
+export const createMetric = (params: Partial<MetricParams> = {}): Metric => {
+  const { kind, massFactor, spin, charge, cosmologicalConstant } = {
+    ...DEFAULT_METRIC,
+    ...params,
+  };
+  switch (kind) {
+    case 'kerr':
+      return kerr(spin, massFactor);
+    case 'reissner-nordstrom':
+      return reissnerNordstrom(charge, massFactor);
+    case 'schwarzschild-de-sitter':
+      return schwarzschildDeSitter(cosmologicalConstant, massFactor);
+    case 'newtonian':
+      return newtonian(massFactor);
+    default:
+      return schwarzschild(massFactor);
+  }
+};
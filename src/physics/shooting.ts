@@ -0,0 +1,198 @@
+/**
+ * Two-point boundary problem for light rays: every launch angle from a
+ * point whose ray passes through a target point, found by shooting.
+ *
+ * Along a ray the polar angle φ is integrated continuously, so each
+ * crossing of the target's circle r = r_B comes with the angle swept
+ * since launch.  The ray hits the target when that angle equals
+ * φ_B − φ_A + 2πn for some integer n; each (crossing, n) pair is a root
+ * of a function of the launch angle, bracketed on a scan of launch
+ * angles and refined by bisection.  Where the crossings of neighbouring
+ * rays do not match (grazing or captured rays in between) the scan is
+ * subdivided, which also resolves the images winding close to the
+ * photon orbit.
+ */
+import type { Trajectory, TrajectoryPoint } from './types';
+
+// Ray of the given launch angle, traced by the caller (possibly in a worker)
+export type RayTracer = (angle: number) => Trajectory | Promise<Trajectory>;
+
+export type ShootingOptions = {
+  samples?: number; // launch angles of the initial scan over the full circle
+  maxWinding?: number; // complete turns around the hole of the rays kept
+  maxDepth?: number; // halvings of a scan interval whose crossings do not match
+  iterations?: number; // bisection steps per ray
+};
+
+const DEFAULT_SHOOTING_OPTIONS: Required<ShootingOptions> = {
+  samples: 180,
+  maxWinding: 1,
+  maxDepth: 16,
+  iterations: 48,
+};
+
+// A ray through the target
+export type ConnectingRay = {
+  angle: number; // launch angle, radians counter-clockwise from +x
+  sweep: number; // polar angle swept on the way, counter-clockwise positive
+  winding: number; // complete turns around the hole, ⌊|sweep| / 2π⌋
+  trajectory: Trajectory; // cut at the target
+  arrival: TrajectoryPoint; // at the target
+  periapsis: number; // closest approach to the hole, r_s
+};
+
+// Crossing of r = r_B between points i and i + 1
+type Crossing = {
+  index: number;
+  fraction: number;
+  outward: boolean;
+  sweep: number;
+};
+
+type Sample = {
+  angle: number;
+  trajectory: Trajectory;
+  crossings: Crossing[];
+};
+
+// Largest distance to the target (relative to r_B) of an accepted root;
+// bisection on a jump of the crossing angle ends far away from it
+const MAX_MISS = 1e-3;
+
+const lerp = (a: number, b: number, s: number) => a + s * (b - a);
+
+const crossingsOf = (trajectory: Trajectory, radius: number, phi0: number): Crossing[] => {
+  const { points } = trajectory;
+  const crossings: Crossing[] = [];
+  for (let i = 0; i + 1 < points.length; i++) {
+    const a = points[i].r - radius;
+    const b = points[i + 1].r - radius;
+    if (a * b < 0 || (a !== 0 && b === 0)) {
+      const fraction = a / (a - b);
+      crossings.push({
+        index: i,
+        fraction,
+        outward: b > a,
+        sweep: lerp(points[i].phi, points[i + 1].phi, fraction) - phi0,
+      });
+    }
+  }
+  return crossings;
+};
+
+// Point of the trajectory at a crossing, all fields interpolated linearly
+const pointAt = (trajectory: Trajectory, crossing: Crossing, radius: number): TrajectoryPoint => {
+  const a = trajectory.points[crossing.index];
+  const b = trajectory.points[crossing.index + 1];
+  const s = crossing.fraction;
+  const phi = lerp(a.phi, b.phi, s);
+  return {
+    lambda: lerp(a.lambda, b.lambda, s),
+    r: radius,
+    phi,
+    x: radius * Math.cos(phi),
+    y: radius * Math.sin(phi),
+    pr: lerp(a.pr, b.pr, s),
+    t: lerp(a.t, b.t, s),
+    infallingTime: lerp(a.infallingTime, b.infallingTime, s),
+    residual: lerp(a.residual, b.residual, s),
+  };
+};
+
+// Crossings of two rays correspond one to one, with nearby sweeps
+const matching = (a: Sample, b: Sample) =>
+  a.crossings.length === b.crossings.length
+  && a.crossings.every((crossing, j) =>
+    crossing.outward === b.crossings[j].outward
+    && Math.abs(crossing.sweep - b.crossings[j].sweep) < Math.PI
+  );
+
+/**
+ * Every ray from `from` through `to` winding at most `maxWinding` times
+ * around the hole, sorted by arrival time.  The rays are traced by
+ * `trace`, so the scan can run in parallel on a worker pool.
+ */
+export const connectingRays = async (
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  trace: RayTracer,
+  options: ShootingOptions = {}
+): Promise<ConnectingRay[]> => {
+  const { samples, maxWinding, maxDepth, iterations } = { ...DEFAULT_SHOOTING_OPTIONS, ...options };
+  const phi0 = Math.atan2(from.y, from.x);
+  const radius = Math.hypot(to.x, to.y);
+  // Sweep to the target modulo 2π, in [0, 2π)
+  const offset = (((Math.atan2(to.y, to.x) - phi0) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+
+  const sample = async (angle: number): Promise<Sample> => {
+    const trajectory = await trace(angle);
+    return { angle, trajectory, crossings: crossingsOf(trajectory, radius, phi0) };
+  };
+
+  // Pairs of neighbouring rays whose crossings match
+  const intervals: [Sample, Sample][] = [];
+  const refine = async (a: Sample, b: Sample, depth: number): Promise<void> => {
+    if (matching(a, b)) {
+      intervals.push([a, b]);
+      return;
+    }
+    if (depth >= maxDepth) return;
+    const middle = await sample(0.5 * (a.angle + b.angle));
+    await Promise.all([refine(a, middle, depth + 1), refine(middle, b, depth + 1)]);
+  };
+
+  const scan = await Promise.all(
+    Array.from({ length: samples + 1 }, (_, i) => sample(-Math.PI + (2 * Math.PI * i) / samples))
+  );
+  await Promise.all(scan.slice(1).map((b, i) => refine(scan[i], b, 0)));
+
+  // Bisection on the sweep at crossing j towards offset + 2πn
+  const solve = async (a: Sample, b: Sample, j: number, n: number): Promise<ConnectingRay | null> => {
+    const target = offset + 2 * Math.PI * n;
+    const miss = (s: Sample) => s.crossings[j].sweep - target;
+    let lo = a;
+    let hi = b;
+    for (let k = 0; k < iterations; k++) {
+      const middle = await sample(0.5 * (lo.angle + hi.angle));
+      if (!matching(middle, lo) || !matching(middle, hi)) return null;
+      if (Math.sign(miss(middle)) === Math.sign(miss(lo))) lo = middle;
+      else hi = middle;
+    }
+    const best = Math.abs(miss(lo)) < Math.abs(miss(hi)) ? lo : hi;
+    const crossing = best.crossings[j];
+    const arrival = pointAt(best.trajectory, crossing, radius);
+    if (Math.hypot(arrival.x - to.x, arrival.y - to.y) > MAX_MISS * Math.max(1, radius)) return null;
+
+    const points = [...best.trajectory.points.slice(0, crossing.index + 1), arrival];
+    return {
+      angle: best.angle,
+      sweep: crossing.sweep,
+      winding: Math.floor(Math.abs(crossing.sweep) / (2 * Math.PI)),
+      trajectory: { ...best.trajectory, points },
+      arrival,
+      periapsis: Math.min(...points.map((point) => point.r)),
+    };
+  };
+
+  const jobs: Promise<ConnectingRay | null>[] = [];
+  for (const [a, b] of intervals) {
+    a.crossings.forEach((crossing, j) => {
+      const low = Math.min(crossing.sweep, b.crossings[j].sweep) - offset;
+      const high = Math.max(crossing.sweep, b.crossings[j].sweep) - offset;
+      for (let n = Math.ceil(low / (2 * Math.PI)); 2 * Math.PI * n <= high; n++) {
+        const turns = Math.floor(Math.abs(offset + 2 * Math.PI * n) / (2 * Math.PI));
+        if (turns <= maxWinding) jobs.push(solve(a, b, j, n));
+      }
+    });
+  }
+
+  // Roots on the boundary of two intervals are found twice
+  const rays: ConnectingRay[] = [];
+  for (const ray of await Promise.all(jobs)) {
+    if (ray && !rays.some((other) => Math.abs(other.angle - ray.angle) < 1e-6 && other.winding === ray.winding)) {
+      rays.push(ray);
+    }
+  }
+  return rays.sort((a, b) => a.arrival.t - b.arrival.t);
+};
+
@@ -0,0 +1,44 @@
+/**
+ * Shared types of the physics library.
+ *
+ * Every length is expressed in units of the Schwarzschild radius r_s of
+ * the hole, so the horizon sits at r = 1.  Positions use the usual
+ * physics convention: x to the right, y *up*, angles measured
+ * counter-clockwise from the +x axis.
+ */
+
+// Integration state of an equatorial geodesic: [r, φ, p_r = dr/dλ, t, T],
+// with t the coordinate time and T the time of the infalling observers
+export type GeodesicState = [number, number, number, number, number];
+
+// Initial conditions of a ray: position and direction of emission
+export type RayInit = {
+  x: number;
+  y: number;
+  angle: number; // radians, counter-clockwise from +x
+};
+
+// Why the integration of a trajectory stopped ('absorbed' by a detector)
+export type Termination = 'captured' | 'escaped' | 'max-steps' | 'absorbed';
+
+export type TrajectoryPoint = {
+  lambda: number; // affine parameter
+  r: number;
+  phi: number;
+  x: number;
+  y: number;
+  pr: number; // radial momentum dr/dλ
+  t: number; // coordinate time since launch, the clock of distant observers
+  infallingTime: number; // proper time of observers falling from rest at infinity
+  residual: number; // (p_r² − W(r)) / E², zero for an exact geodesic
+};
+
+export type Trajectory = {
+  points: TrajectoryPoint[];
+  termination: Termination;
+  energy: number; // conserved E
+  angularMomentum: number; // conserved L
+  impactParameter: number; // b = L / E (L / √(E² − 1) for particles)
+  constraintDrift: number; // largest |residual| along the path
+  properTime?: number; // proper time elapsed along a particle's orbit
+};
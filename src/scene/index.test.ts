@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SCENE_VERSION,
+  SceneFormatError,
+  decodeSceneHash,
+  encodeSceneHash,
+  parseScene,
+  sceneFromJson,
+  sceneToJson,
+  type Scene,
+} from '.';
+
+const SCENE: Scene = {
+  version: SCENE_VERSION,
+  emitters: [
+    { kind: 'laser', x: -12.5, y: 3.25, angle: 10, speed: 0.5, pattern: 'beam', count: 5, beamWidth: 2, aperture: 30 },
+    { kind: 'particle', x: 8, y: -4, angle: 135.5, speed: 0.4, pattern: 'ray', count: 1, beamWidth: 2, aperture: 30 },
+  ],
+  view: { zoom: 1.5, panX: 2, panY: -1.25 },
+  gravityEnabled: true,
+  showGrid: false,
+  language: 'en',
+  metric: { kind: 'kerr', spin: 0.7, charge: 0, cosmologicalConstant: 0 },
+  tolerance: 1e-7,
+  worldRadius: 80,
+  observer: { x: 20, y: 0, angle: 180, fov: 75 },
+  optics: [
+    { kind: 'flat-mirror', x: -5, y: 6, angle: 45, size: 3 },
+    { kind: 'detector', x: 15, y: -8, angle: 90, size: 2.5 },
+  ],
+};
+
+// Hash of SCENE with its compact array patched by `edit`
+const patchedHash = (edit: (compact: unknown[][]) => void, version = `${SCENE_VERSION}`) => {
+  const payload = encodeSceneHash(SCENE).split('.')[1];
+  const compact = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+  edit(compact);
+  return `#scene=${version}.${btoa(JSON.stringify(compact))}`;
+};
+
+describe('parseScene', () => {
+  it('round-trips a scene through JSON', () => {
+    expect(sceneFromJson(sceneToJson(SCENE))).toEqual(SCENE);
+  });
+
+  it('fills the optional fields with their defaults', () => {
+    const scene = parseScene({ version: 1, emitters: [{ x: 1, y: 2, angle: 0 }] });
+    expect(scene.emitters[0]).toMatchObject({ kind: 'laser', pattern: 'ray', count: 1 });
+    expect(scene.metric.kind).toBe('schwarzschild');
+    expect(scene.observer).toBeNull();
+    expect(scene.optics).toEqual([]);
+  });
+
+  it('accepts only whole versions from 1 up to the current one', () => {
+    for (const version of [0, -1, 0.5, SCENE_VERSION + 1, '1', undefined]) {
+      expect(() => parseScene({ ...SCENE, version })).toThrow(SceneFormatError);
+    }
+  });
+
+  it('names the first offending field', () => {
+    expect(() => parseScene({ ...SCENE, emitters: [{ ...SCENE.emitters[0], x: 'left' }] })).toThrow(
+      'emitters[0].x must be a number'
+    );
+    expect(() => parseScene({ ...SCENE, metric: { kind: 'kerr', spin: 2 } })).toThrow('metric.spin must lie between');
+    expect(() => parseScene({ ...SCENE, optics: [{ kind: 'lens', x: 0, y: 0, size: 1 }] })).toThrow('optics[0].kind');
+    expect(() => sceneFromJson('{ version: 1')).toThrow('file is not valid JSON');
+  });
+});
+
+describe('decodeSceneHash', () => {
+  it('round-trips a scene through a link', () => {
+    expect(decodeSceneHash(encodeSceneHash(SCENE))).toEqual(SCENE);
+    expect(decodeSceneHash(`#${encodeSceneHash({ ...SCENE, observer: null, optics: [] })}`)).toMatchObject({
+      observer: null,
+      optics: [],
+    });
+  });
+
+  it('rejects unknown metric, pattern and optic indices instead of falling back', () => {
+    const edits: ((compact: unknown[][]) => void)[] = [
+      (compact) => { compact[3][0] = 7; },
+      (compact) => { (compact[0][0] as unknown[])[5] = 9; },
+      (compact) => { (compact[7][0] as unknown[])[0] = 5; },
+    ];
+    for (const edit of edits) {
+      expect(() => decodeSceneHash(patchedHash(edit))).toThrow(SceneFormatError);
+    }
+  });
+
+  it('rejects links with a bad version or payload', () => {
+    expect(() => decodeSceneHash(patchedHash(() => {}, '0'))).toThrow(SceneFormatError);
+    expect(() => decodeSceneHash(patchedHash(() => {}, ''))).toThrow(SceneFormatError);
+    expect(() => decodeSceneHash('#scene=1.not-base64!')).toThrow('link is truncated or corrupted');
+    expect(() => decodeSceneHash('#view=1')).toThrow('link does not contain a scene');
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Versioned scene format, shared by JSON files and shareable URL hashes.
+ *
+ * Positions and angles follow the physics convention of the edit dialog:
+ * lengths in units of r_s, y pointing up, angles in degrees measured
+ * counter-clockwise from +x.  Nothing here depends on the window size.
+ */
+import { DEFAULT_METRIC, METRIC_KINDS, type MetricParams, type RayInit } from '@/physics';
+import { OPTICAL_KINDS, type OpticalElement } from '@/optics';
+
+export const SCENE_VERSION = 1;
+
+// Layout of the rays of an emitter: one ray, a parallel beam, a fan or
+// an isotropic point source
+export const EMITTER_PATTERNS = ['ray', 'beam', 'fan', 'point'] as const;
+export type EmitterPattern = (typeof EMITTER_PATTERNS)[number];
+
+export type SceneEmitter = {
+  kind: 'laser' | 'particle';
+  x: number;
+  y: number;
+  angle: number;
+  speed: number; // launch speed of particles, fraction of c
+  pattern: EmitterPattern;
+  count: number; // rays of beams, fans and point sources
+  beamWidth: number; // r_s
+  aperture: number; // opening of fans, degrees
+};
+
+export type Scene = {
+  version: number;
+  emitters: SceneEmitter[];
+  view: {
+    zoom: number;
+    panX: number; // pan offset in r_s units, y up
+    panY: number;
+  };
+  gravityEnabled: boolean;
+  showGrid: boolean;
+  language: 'en' | 'es';
+  metric: Omit<MetricParams, 'massFactor'>;
+  tolerance: number;
+  worldRadius: number; // rays count as escaped beyond this radius (r_s)
+  // Camera of the lensed view, angles in degrees; null when hidden
+  observer: { x: number; y: number; angle: number; fov: number } | null;
+  optics: Omit<OpticalElement, 'id'>[]; // mirrors and detectors
+};
+
+/**
+ * Launch points and directions of the rays of an emitter: a parallel beam
+ * spread across its width, a fan over its aperture, point sources over
+ * the full circle starting at the emitter direction.
+ */
+export const emitterRays = (emitter: SceneEmitter): RayInit[] => {
+  const n = emitter.pattern === 'ray' ? 1 : emitter.count;
+  const theta = (emitter.angle * Math.PI) / 180;
+  // Position of ray i across the emitter, from -½ to ½
+  const spread = (i: number) => (n > 1 ? i / (n - 1) - 0.5 : 0);
+  return Array.from({ length: n }, (_, i) => {
+    switch (emitter.pattern) {
+      case 'beam': {
+        const offset = emitter.beamWidth * spread(i);
+        return { x: emitter.x - offset * Math.sin(theta), y: emitter.y + offset * Math.cos(theta), angle: theta };
+      }
+      case 'fan':
+        return { x: emitter.x, y: emitter.y, angle: theta + (emitter.aperture * spread(i) * Math.PI) / 180 };
+      case 'point':
+        return { x: emitter.x, y: emitter.y, angle: theta + (2 * Math.PI * i) / n };
+      default:
+        return { x: emitter.x, y: emitter.y, angle: theta };
+    }
+  });
+};
+
+// Raised for files or links that do not hold a valid scene
+export class SceneFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneFormatError';
+  }
+}
+
+/* ------------ validation helpers ------------------------------------------ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectNumber = (value: unknown, path: string, min = -Infinity, max = Infinity): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SceneFormatError(`${path} must be a number`);
+  }
+  if (value < min || value > max) {
+    throw new SceneFormatError(`${path} must lie between ${min} and ${max}`);
+  }
+  return value;
+};
+
+const expectBoolean = (value: unknown, path: string): boolean => {
+  if (typeof value !== 'boolean') throw new SceneFormatError(`${path} must be true or false`);
+  return value;
+};
+
+const expectOneOf = <T extends string>(value: unknown, options: readonly T[], path: string): T => {
+  if (!options.includes(value as T)) {
+    throw new SceneFormatError(`${path} must be one of ${options.join(', ')}`);
+  }
+  return value as T;
+};
+
+export const parseEmitter = (value: unknown, path: string): SceneEmitter => {
+  if (!isRecord(value)) throw new SceneFormatError(`${path} must be an object`);
+  return {
+    kind: expectOneOf(value.kind ?? 'laser', ['laser', 'particle'] as const, `${path}.kind`),
+    x: expectNumber(value.x, `${path}.x`),
+    y: expectNumber(value.y, `${path}.y`),
+    angle: expectNumber(value.angle, `${path}.angle`),
+    speed: expectNumber(value.speed ?? 0.5, `${path}.speed`, 0, 0.999),
+    pattern: expectOneOf(value.pattern ?? 'ray', EMITTER_PATTERNS, `${path}.pattern`),
+    count: Math.round(expectNumber(value.count ?? 1, `${path}.count`, 1, 64)),
+    beamWidth: expectNumber(value.beamWidth ?? 2, `${path}.beamWidth`, 0, 50),
+    aperture: expectNumber(value.aperture ?? 30, `${path}.aperture`, 0, 360),
+  };
+};
+
+// Metric of a scene, its mass set by the gravity switch instead
+export const parseMetric = (value: unknown, path: string): Scene['metric'] => {
+  const metric = value ?? {};
+  if (!isRecord(metric)) throw new SceneFormatError(`${path} must be an object`);
+  return {
+    kind: expectOneOf(metric.kind ?? DEFAULT_METRIC.kind, METRIC_KINDS, `${path}.kind`),
+    spin: expectNumber(metric.spin ?? DEFAULT_METRIC.spin, `${path}.spin`, 0, 0.99),
+    charge: expectNumber(metric.charge ?? DEFAULT_METRIC.charge, `${path}.charge`, 0, 1),
+    cosmologicalConstant: expectNumber(
+      metric.cosmologicalConstant ?? DEFAULT_METRIC.cosmologicalConstant,
+      `${path}.cosmologicalConstant`,
+      0,
+      0.02
+    ),
+  };
+};
+
+const parseOptic = (value: unknown, path: string): Scene['optics'][number] => {
+  if (!isRecord(value)) throw new SceneFormatError(`${path} must be an object`);
+  return {
+    kind: expectOneOf(value.kind, OPTICAL_KINDS, `${path}.kind`),
+    x: expectNumber(value.x, `${path}.x`),
+    y: expectNumber(value.y, `${path}.y`),
+    angle: expectNumber(value.angle ?? 0, `${path}.angle`),
+    size: expectNumber(value.size, `${path}.size`, 0.01, 1000),
+  };
+};
+
+const parseObserver = (value: unknown): Scene['observer'] => {
+  if (value === null) return null;
+  if (!isRecord(value)) throw new SceneFormatError('observer must be an object');
+  return {
+    x: expectNumber(value.x, 'observer.x'),
+    y: expectNumber(value.y, 'observer.y'),
+    angle: expectNumber(value.angle, 'observer.angle'),
+    fov: expectNumber(value.fov ?? 60, 'observer.fov', 10, 160),
+  };
+};
+
+/**
+ * Check an already parsed JSON value and return it as a Scene, filling
+ * optional fields with their defaults.  Throws SceneFormatError naming
+ * the first offending field.
+ */
+export const parseScene = (value: unknown): Scene => {
+  if (!isRecord(value)) throw new SceneFormatError('scene must be an object');
+
+  const version = expectNumber(value.version, 'version', 1);
+  if (!Number.isInteger(version)) throw new SceneFormatError('version must be a whole number');
+  if (version > SCENE_VERSION) {
+    throw new SceneFormatError(`version ${version} is newer than this simulator (${SCENE_VERSION})`);
+  }
+
+  if (!Array.isArray(value.emitters)) throw new SceneFormatError('emitters must be a list');
+  const emitters = value.emitters.map((emitter, i) => parseEmitter(emitter, `emitters[${i}]`));
+
+  const view = value.view ?? {};
+  if (!isRecord(view)) throw new SceneFormatError('view must be an object');
+
+  return {
+    version: SCENE_VERSION,
+    emitters,
+    view: {
+      zoom: expectNumber(view.zoom ?? 1, 'view.zoom', 0.2, 2.5),
+      panX: expectNumber(view.panX ?? 0, 'view.panX'),
+      panY: expectNumber(view.panY ?? 0, 'view.panY'),
+    },
+    gravityEnabled: expectBoolean(value.gravityEnabled ?? false, 'gravityEnabled'),
+    showGrid: expectBoolean(value.showGrid ?? false, 'showGrid'),
+    language: expectOneOf(value.language ?? 'es', ['en', 'es'] as const, 'language'),
+    metric: parseMetric(value.metric, 'metric'),
+    tolerance: expectNumber(value.tolerance ?? 1e-6, 'tolerance', 0, 1e-2),
+    worldRadius: expectNumber(value.worldRadius ?? 50, 'worldRadius', 5, 1000),
+    observer: parseObserver(value.observer ?? null),
+    optics: (() => {
+      const optics = value.optics ?? [];
+      if (!Array.isArray(optics)) throw new SceneFormatError('optics must be a list');
+      return optics.map((optic, i) => parseOptic(optic, `optics[${i}]`));
+    })(),
+  };
+};
+
+/* ------------ JSON files -------------------------------------------------- */
+export const sceneToJson = (scene: Scene): string => JSON.stringify(scene, null, 2);
+
+export const sceneFromJson = (text: string): Scene => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new SceneFormatError('file is not valid JSON');
+  }
+  return parseScene(value);
+};
+
+/* ------------ URL hash ---------------------------------------------------- */
+// The hash holds  scene=<version>.<base64url of a compact JSON array>
+const HASH_PREFIX = 'scene=';
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+const toBase64Url = (text: string): string =>
+  btoa(Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join(''))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Compact encoding of a scene for links: a positional array instead of
+ * named fields, numbers rounded to four decimals.
+ */
+export const encodeSceneHash = (scene: Scene): string => {
+  const compact = [
+    scene.emitters.map((e) => [
+      e.kind === 'particle' ? 1 : 0, round(e.x), round(e.y), round(e.angle, 2), round(e.speed, 3),
+      EMITTER_PATTERNS.indexOf(e.pattern), e.count, round(e.beamWidth, 3), round(e.aperture, 2),
+    ]),
+    [round(scene.view.zoom, 3), round(scene.view.panX), round(scene.view.panY)],
+    [scene.gravityEnabled ? 1 : 0, scene.showGrid ? 1 : 0, scene.language],
+    [
+      METRIC_KINDS.indexOf(scene.metric.kind),
+      scene.metric.spin,
+      scene.metric.charge,
+      scene.metric.cosmologicalConstant,
+    ],
+    scene.tolerance,
+    scene.worldRadius,
+    scene.observer
+      ? [round(scene.observer.x), round(scene.observer.y), round(scene.observer.angle, 2), round(scene.observer.fov, 1)]
+      : 0,
+    scene.optics.map((o) => [OPTICAL_KINDS.indexOf(o.kind), round(o.x), round(o.y), round(o.angle, 2), round(o.size, 3)]),
+  ];
+  return `${HASH_PREFIX}${SCENE_VERSION}.${toBase64Url(JSON.stringify(compact))}`;
+};
+
+// True when the hash (with or without its leading '#') carries a scene
+export const hasSceneHash = (hash: string): boolean =>
+  hash.replace(/^#/, '').startsWith(HASH_PREFIX);
+
+export const decodeSceneHash = (hash: string): Scene => {
+  const body = hash.replace(/^#/, '');
+  if (!body.startsWith(HASH_PREFIX)) throw new SceneFormatError('link does not contain a scene');
+  const [versionText, payload] = body.slice(HASH_PREFIX.length).split('.');
+
+  let compact: unknown;
+  try {
+    compact = JSON.parse(fromBase64Url(payload ?? ''));
+  } catch {
+    throw new SceneFormatError('link is truncated or corrupted');
+  }
+  if (!Array.isArray(compact) || compact.length < 5) {
+    throw new SceneFormatError('link is truncated or corrupted');
+  }
+
+  const [emitters, view, flags, metric, tolerance, worldRadius, observer, optics] = compact as unknown[][];
+  if (![emitters, view, flags, metric].every(Array.isArray)) {
+    throw new SceneFormatError('link is truncated or corrupted');
+  }
+  return parseScene({
+    version: Number(versionText),
+    emitters: emitters.map((e) => {
+      const [kind, x, y, angle, speed, pattern, count, beamWidth, aperture] = Array.isArray(e) ? e : [];
+      return {
+        kind: kind === 1 ? 'particle' : 'laser',
+        x,
+        y,
+        angle,
+        speed,
+        pattern: pattern === undefined ? undefined : EMITTER_PATTERNS[pattern as number] ?? pattern,
+        count,
+        beamWidth,
+        aperture,
+      };
+    }),
+    view: { zoom: view[0], panX: view[1], panY: view[2] },
+    gravityEnabled: flags[0] === 1,
+    showGrid: flags[1] === 1,
+    language: flags[2],
+    metric: {
+      kind: metric[0] === undefined ? undefined : METRIC_KINDS[metric[0] as number] ?? metric[0],
+      spin: metric[1],
+      charge: metric[2],
+      cosmologicalConstant: metric[3],
+    },
+    tolerance,
+    worldRadius,
+    observer: Array.isArray(observer)
+      ? { x: observer[0], y: observer[1], angle: observer[2], fov: observer[3] }
+      : null,
+    optics: Array.isArray(optics)
+      ? optics.map((o) => {
+          const [kind, x, y, angle, size] = Array.isArray(o) ? o : [];
+          return { kind: OPTICAL_KINDS[kind as number], x, y, angle, size };
+        })
+      : [],
+  });
+};
@@ -0,0 +1,38 @@
+import { integrateLightRay, integrateParticle, type GeodesicOptions, type RayInit, type Trajectory } from '@/physics';
+import { traceWithOptics, type OpticalElement } from '@/optics';
+
+// Everything that determines the path of one emitter
+export type TrajectoryRequest = {
+  kind: 'laser' | 'particle';
+  init: RayInit; // r_s units, y up, angle in radians
+  speed: number; // launch speed of particles, ignored for light
+  options: GeodesicOptions;
+  // Only the last two points are needed (e.g. the final direction of a
+  // ray traced back from a camera): the rest is dropped before caching
+  endpointsOnly?: boolean;
+  // Mirrors and detectors in the way of light rays (particles ignore them)
+  optics?: OpticalElement[];
+};
+
+// Cache key of a request; equal keys always give equal trajectories
+export const trajectoryKey = (request: TrajectoryRequest): string => JSON.stringify([
+  request.kind,
+  request.init.x,
+  request.init.y,
+  request.init.angle,
+  request.kind === 'particle' ? request.speed : null,
+  request.options,
+  request.endpointsOnly ?? false,
+  request.kind === 'laser' ? request.optics ?? [] : [],
+]);
+
+export const computeTrajectory = (request: TrajectoryRequest): Trajectory => {
+  const trajectory = request.kind === 'particle'
+    ? integrateParticle(request.init, request.speed, request.options)
+    : request.optics?.length
+      ? traceWithOptics(request.init, request.optics, request.options)
+      : integrateLightRay(request.init, request.options);
+  return request.endpointsOnly
+    ? { ...trajectory, points: trajectory.points.slice(-2) }
+    : trajectory;
+};
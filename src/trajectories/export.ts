@@ -0,0 +1,107 @@
+import { measuredDeflection, type MetricParams, type Termination, type Trajectory } from '@/physics';
+
+// One computed ray of an emitter, as handed to the exporters
+export type TrajectoryRecord = {
+  emitter: number; // emitter id
+  ray: number; // index of the ray within its emitter
+  kind: 'laser' | 'particle';
+  trajectory: Trajectory;
+};
+
+export type TrajectorySummary = {
+  emitter: number;
+  ray: number;
+  kind: 'laser' | 'particle';
+  fate: Termination;
+  impactParameter: number | null; // r_s, null for bound particles (E ≤ 1)
+  periapsis: number | null; // smallest radius reached, r_s, null without points
+  deflection: number | null; // radians, for escaped light rays
+  energy: number;
+  angularMomentum: number;
+  constraintDrift: number;
+  properTime: number | null; // particles only, r_s / c
+};
+
+// Integration settings recorded alongside the data
+export type ExportSettings = {
+  metric: MetricParams;
+  tolerance: number;
+  worldRadius: number;
+};
+
+// Columns of the per-point table, in the units of the physics library
+const POINT_COLUMNS = ['lambda', 'r', 'phi', 'x', 'y', 'pr', 't', 'infallingTime', 'residual'] as const;
+
+// Smallest radius of a path; a loop, as paths can be too long to spread
+const periapsisOf = (trajectory: Trajectory): number | null => {
+  let periapsis: number | null = null;
+  for (const { r } of trajectory.points) {
+    if (periapsis === null || r < periapsis) periapsis = r;
+  }
+  return periapsis;
+};
+
+export const summarizeTrajectory = (
+  { emitter, ray, kind, trajectory }: TrajectoryRecord,
+  metric: MetricParams
+): TrajectorySummary => ({
+  emitter,
+  ray,
+  kind,
+  fate: trajectory.termination,
+  impactParameter: Number.isFinite(trajectory.impactParameter) ? trajectory.impactParameter : null,
+  periapsis: periapsisOf(trajectory),
+  deflection: kind === 'laser' ? measuredDeflection(trajectory, metric) : null,
+  energy: trajectory.energy,
+  angularMomentum: trajectory.angularMomentum,
+  constraintDrift: trajectory.constraintDrift,
+  properTime: trajectory.properTime ?? null,
+});
+
+/**
+ * JSON document with the settings, and for every ray its summary and,
+ * unless `includePoints` is false, the full list of points.  Indented for
+ * reading unless `pretty` is false.
+ */
+export const trajectoriesToJson = (
+  records: TrajectoryRecord[],
+  settings: ExportSettings,
+  includePoints = true,
+  pretty = true
+): string =>
+  JSON.stringify({
+    units: 'lengths in r_s, times in r_s / c, angles in radians, y up',
+    ...settings,
+    trajectories: records.map((record) => ({
+      ...summarizeTrajectory(record, settings.metric),
+      ...(includePoints && {
+        points: record.trajectory.points.map((point) =>
+          Object.fromEntries(POINT_COLUMNS.map((column) => [column, point[column]]))
+        ),
+      }),
+    })),
+  }, null, pretty ? 2 : undefined);
+
+/**
+ * CSV table with one row per integration point, keyed by emitter and ray.
+ * The settings and the summary of each ray come first as comment lines
+ * starting with '#', which pandas skips with  read_csv(..., comment='#') .
+ */
+export const trajectoriesToCsv = (records: TrajectoryRecord[], settings: ExportSettings): string => {
+  const { metric, tolerance, worldRadius } = settings;
+  const lines = [
+    '# units: lengths in r_s, times in r_s / c, angles in radians, y up',
+    `# metric=${metric.kind} massFactor=${metric.massFactor} spin=${metric.spin} charge=${metric.charge} cosmologicalConstant=${metric.cosmologicalConstant} tolerance=${tolerance} worldRadius=${worldRadius}`,
+  ];
+  for (const record of records) {
+    const summary = summarizeTrajectory(record, metric);
+    lines.push(`# ${Object.entries(summary).map(([key, value]) => `${key}=${value}`).join(' ')}`);
+  }
+  lines.push(['emitter', 'ray', ...POINT_COLUMNS].join(','));
+  for (const { emitter, ray, trajectory } of records) {
+    for (const point of trajectory.points) {
+      lines.push([emitter, ray, ...POINT_COLUMNS.map((column) => point[column])].join(','));
+    }
+  }
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,5 @@
+export * from './compute';
+export * from './pool';
+export * from './useTrajectories';
+export * from './export';
+export * from './useConnectingRays';
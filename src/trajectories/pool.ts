@@ -0,0 +1,191 @@
+import type { Trajectory } from '@/physics';
+import { computeTrajectory, trajectoryKey, type TrajectoryRequest } from './compute';
+import type { WorkerJob, WorkerResult } from './trajectory.worker';
+
+// Trajectories kept in memory besides the largest batch (see computeAll),
+// least recently used dropped first
+const CACHE_SIZE = 500;
+
+// Rejection of a caller whose queued request was replaced by a newer one
+// with the same tag
+export class SupersededError extends Error {
+  constructor() {
+    super('trajectory request superseded');
+    this.name = 'SupersededError';
+  }
+}
+
+// Rejection handler for pool jobs: superseded jobs are expected and
+// dropped silently, any other error is passed on to `report`
+export const unlessSuperseded = (report: (error: Error) => void) => (error: unknown) => {
+  if (!(error instanceof SupersededError)) report(error as Error);
+};
+
+// A caller waiting for a job
+type Waiter = {
+  tag: string | null;
+  resolve: (trajectory: Trajectory) => void;
+  reject: (error: Error) => void;
+};
+
+type Job = {
+  id: number;
+  key: string;
+  request: TrajectoryRequest;
+  waiters: Waiter[];
+};
+
+/**
+ * Pool of workers integrating trajectories off the main thread, with a
+ * cache keyed on the full request.  Callers asking for the same request
+ * share one job.  Requests carry an optional tag (e.g. the emitter id):
+ * a new request rejects the earlier callers of its tag still waiting in
+ * the queue, and a queued job is dropped once none of its callers is
+ * left, so a drag only ever leaves the latest position in the queue.
+ */
+export class TrajectoryPool {
+  private readonly idle: Worker[] = [];
+  private readonly busy = new Map<Worker, Job>();
+  private readonly queue: Job[] = [];
+  // Queued and running jobs by key
+  private readonly pending = new Map<string, Job>();
+  private readonly cache = new Map<string, Trajectory>();
+  private capacity = CACHE_SIZE;
+  private nextJobId = 0;
+
+  constructor(size: number) {
+    // Without worker support everything is computed on the main thread
+    if (typeof Worker === 'undefined') return;
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(new URL('./trajectory.worker.ts', import.meta.url));
+      worker.addEventListener('message', (event: MessageEvent<WorkerResult>) => this.finish(worker, event.data));
+      worker.addEventListener('error', (event) => this.fail(worker, new Error(event.message)));
+      this.idle.push(worker);
+    }
+  }
+
+  // Cached trajectory of a request, if it has already been computed
+  peek(request: TrajectoryRequest): Trajectory | undefined {
+    const key = trajectoryKey(request);
+    const trajectory = this.cache.get(key);
+    if (trajectory) this.remember(key, trajectory);
+    return trajectory;
+  }
+
+  compute(request: TrajectoryRequest, tag: string | null = null): Promise<Trajectory> {
+    const key = trajectoryKey(request);
+    const cached = this.peek(request);
+    if (cached) return Promise.resolve(cached);
+
+    if (this.idle.length === 0 && this.busy.size === 0) {
+      const trajectory = computeTrajectory(request);
+      this.remember(key, trajectory);
+      return Promise.resolve(trajectory);
+    }
+
+    if (tag !== null) this.supersede(tag, key);
+
+    return new Promise<Trajectory>((resolve, reject) => {
+      const waiter = { tag, resolve, reject };
+      const pending = this.pending.get(key);
+      if (pending) {
+        pending.waiters.push(waiter);
+        return;
+      }
+      const job = { id: this.nextJobId++, key, request, waiters: [waiter] };
+      this.queue.push(job);
+      this.pending.set(key, job);
+      this.pump();
+    });
+  }
+
+  /**
+   * Compute a batch of requests, tagged `${tag}-${index}`, such as the
+   * rays of a lensing table.  The cache grows to hold the largest batch
+   * next to the emitters' paths, so a table asked for again is found whole.
+   */
+  computeAll(requests: TrajectoryRequest[], tag: string): Promise<Trajectory[]> {
+    this.capacity = Math.max(this.capacity, CACHE_SIZE + requests.length);
+    return Promise.all(requests.map((request, i) => this.compute(request, `${tag}-${i}`)));
+  }
+
+  terminate(): void {
+    for (const worker of [...this.idle, ...this.busy.keys()]) worker.terminate();
+    for (const job of [...this.queue, ...this.busy.values()]) {
+      for (const waiter of job.waiters) waiter.reject(new SupersededError());
+    }
+    this.idle.length = 0;
+    this.busy.clear();
+    this.queue.length = 0;
+    this.pending.clear();
+  }
+
+  /* ------------ scheduling ------------------------------------------------ */
+  // Reject the waiting callers of a tag, except on the job of `key`, and
+  // drop the queued jobs left without callers
+  private supersede(tag: string, key: string): void {
+    for (const job of [...this.queue]) {
+      if (job.key === key) continue;
+      const superseded = job.waiters.filter((waiter) => waiter.tag === tag);
+      if (superseded.length === 0) continue;
+      job.waiters = job.waiters.filter((waiter) => waiter.tag !== tag);
+      if (job.waiters.length === 0) {
+        this.queue.splice(this.queue.indexOf(job), 1);
+        this.pending.delete(job.key);
+      }
+      for (const waiter of superseded) waiter.reject(new SupersededError());
+    }
+  }
+
+  private pump(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const job = this.queue.shift()!;
+      this.busy.set(worker, job);
+      const message: WorkerJob = { id: job.id, request: job.request };
+      worker.postMessage(message);
+    }
+  }
+
+  private finish(worker: Worker, result: WorkerResult): void {
+    const job = this.busy.get(worker);
+    this.release(worker);
+    if (!job || job.id !== result.id) return;
+    this.remember(job.key, result.trajectory);
+    for (const waiter of job.waiters) waiter.resolve(result.trajectory);
+  }
+
+  private fail(worker: Worker, error: Error): void {
+    const job = this.busy.get(worker);
+    this.release(worker);
+    for (const waiter of job?.waiters ?? []) waiter.reject(error);
+  }
+
+  private release(worker: Worker): void {
+    const job = this.busy.get(worker);
+    if (job) this.pending.delete(job.key);
+    this.busy.delete(worker);
+    this.idle.push(worker);
+    this.pump();
+  }
+
+  // Insert or refresh a cache entry, evicting the least recently used
+  private remember(key: string, trajectory: Trajectory): void {
+    this.cache.delete(key);
+    this.cache.set(key, trajectory);
+    if (this.cache.size > this.capacity) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+}
+
+let sharedPool: TrajectoryPool | null = null;
+
+// Pool shared by the whole page, leaving one core to the interface
+export const getTrajectoryPool = (): TrajectoryPool => {
+  if (!sharedPool) {
+    const cores = typeof navigator === 'undefined' ? 2 : navigator.hardwareConcurrency || 2;
+    sharedPool = new TrajectoryPool(Math.min(4, Math.max(1, cores - 1)));
+  }
+  return sharedPool;
+};
@@ -0,0 +1,14 @@
+/**
+ * Worker entry: integrates the geodesics posted by the pool, one request
+ * per message, and answers with the trajectory under the same job id.
+ */
+import { computeTrajectory, type TrajectoryRequest } from './compute';
+
+export type WorkerJob = { id: number; request: TrajectoryRequest };
+export type WorkerResult = { id: number; trajectory: ReturnType<typeof computeTrajectory> };
+
+self.addEventListener('message', (event: MessageEvent<WorkerJob>) => {
+  const { id, request } = event.data;
+  const result: WorkerResult = { id, trajectory: computeTrajectory(request) };
+  self.postMessage(result);
+});
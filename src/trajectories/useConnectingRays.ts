@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import {
+  connectingRays,
+  type ConnectingRay,
+  type GeodesicOptions,
+  type RayTracer,
+  type ShootingOptions,
+} from '@/physics';
+import { getTrajectoryPool, SupersededError, unlessSuperseded } from './pool';
+
+// Rays to find from one point through another
+export type ShootingProblem = {
+  from: { x: number; y: number }; // r_s units, y up
+  to: { x: number; y: number };
+  options: GeodesicOptions;
+  shooting?: ShootingOptions;
+};
+
+/**
+ * Tracer of the rays leaving `from`, run on the shared worker pool.  Once
+ * `cancelled` returns true every further ray is refused, which stops a
+ * search whose answer is no longer wanted at its next round of rays.
+ */
+export const poolTracer = (
+  from: { x: number; y: number },
+  options: GeodesicOptions,
+  cancelled: () => boolean = () => false
+): RayTracer => (angle) => cancelled()
+  ? Promise.reject(new SupersededError())
+  : getTrajectoryPool().compute({ kind: 'laser', init: { x: from.x, y: from.y, angle }, speed: 0, options });
+
+/**
+ * Rays solving a shooting problem, or null while they are searched for.
+ * A new problem abandons the search for the previous one; a failed
+ * search is passed to `onError`.
+ */
+export const useConnectingRays = (
+  problem: ShootingProblem | null,
+  onError: (error: Error) => void
+): ConnectingRay[] | null => {
+  const [solved, setSolved] = useState<{ problem: ShootingProblem; rays: ConnectingRay[] } | null>(null);
+
+  useEffect(() => {
+    if (!problem) return;
+    let cancelled = false;
+    const trace = poolTracer(problem.from, problem.options, () => cancelled);
+    connectingRays(problem.from, problem.to, trace, problem.shooting).then(
+      (rays) => {
+        if (!cancelled) setSolved({ problem, rays });
+      },
+      unlessSuperseded(onError)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [problem, onError]);
+
+  return solved && solved.problem === problem ? solved.rays : null;
+};
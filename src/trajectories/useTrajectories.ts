@@ -0,0 +1,52 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Trajectory } from '@/physics';
+import type { TrajectoryRequest } from './compute';
+import { getTrajectoryPool, unlessSuperseded } from './pool';
+
+/**
+ * Trajectories of a set of emitters, keyed like `requests`, computed by
+ * the shared worker pool.  Results are streamed in as each one arrives;
+ * until then an emitter keeps the last path it received, so moving it
+ * never blanks its ray.  Failed computations are passed to `onError`.
+ */
+export const useTrajectories = <K extends string | number>(
+  requests: Map<K, TrajectoryRequest>,
+  tag: string,
+  onError: (error: Error) => void
+): Map<K, Trajectory> => {
+  const [arrived, setArrived] = useState(() => new Map<K, { seq: number; trajectory: Trajectory }>());
+  const sequence = useRef(0);
+
+  useEffect(() => {
+    const pool = getTrajectoryPool();
+
+    // Forget emitters that no longer exist
+    setArrived((prev) => {
+      if ([...prev.keys()].every((id) => requests.has(id))) return prev;
+      return new Map([...prev].filter(([id]) => requests.has(id)));
+    });
+
+    for (const [id, request] of requests) {
+      if (pool.peek(request)) continue;
+      const seq = ++sequence.current;
+      pool.compute(request, `${tag}-${id}`).then(
+        (trajectory) => setArrived((prev) => {
+          // An older request finishing late must not replace a newer path
+          if ((prev.get(id)?.seq ?? -1) > seq) return prev;
+          return new Map(prev).set(id, { seq, trajectory });
+        }),
+        unlessSuperseded(onError)
+      );
+    }
+  }, [requests, tag, onError]);
+
+  return useMemo(() => {
+    const pool = getTrajectoryPool();
+    const trajectories = new Map<K, Trajectory>();
+    for (const [id, request] of requests) {
+      const trajectory = pool.peek(request) ?? arrived.get(id)?.trajectory;
+      if (trajectory) trajectories.set(id, trajectory);
+    }
+    return trajectories;
+  }, [requests, arrived]);
+};
@@ -0,0 +1,11 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// Same '@/…' alias as tsconfig.json
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+});